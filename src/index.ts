@@ -1,12 +1,42 @@
-import { connect as tslConnect } from 'tls';
-import { connect as netConnect } from 'net';
 import { EventEmitter } from 'events';
-import { ConnectOptions } from './lib/interfaces';
+import { ConnectOptions, LogRange, RequestOptions } from './lib/interfaces';
+import * as transports from './lib/transports';
+import { getTlsErrorReason, Transport, TcpTransport, TlsTransport, TlsTransportOptions } from './lib/transports';
 
 import getElkMessage from './lib/factory';
+import { ElkFramer } from './lib/framer';
+import * as errors from './lib/errors';
+import {
+  ElkAbortError,
+  ElkAuthError,
+  ElkCapabilityError,
+  ElkConnectionError,
+  ElkTimeoutError,
+  ElkValidationError
+} from './lib/errors';
+import { CommandQueue } from './lib/queue';
+import { RequestManager, PendingRequestOptions, ReplyOptions } from './lib/requests';
 import {
   ElkMessage,
+  AlarmByZoneReport,
+  AlarmReport,
   ArmingStatusReport,
+  CounterValue,
+  CustomValueReport,
+  KeypadFunctionKeypress,
+  KeypadKeyChangeUpdate,
+  LightingChangeUpdate,
+  LightingPollResponse,
+  LightingStatusReport,
+  LogDataUpdate,
+  RealTimeClockData,
+  SystemTroubleStatus,
+  TemperatureData,
+  TemperatureReply,
+  ThermostatReply,
+  UserCodeAreasReport,
+  UserCodeChangeReply,
+  VersionReport,
   OutputStatusReport,
   TextStringDescriptionReport,
   ZoneDefinitionReport,
@@ -16,539 +46,1793 @@ import {
   ZoneChangeUpdate,
   ZoneVoltageReport
 } from './lib/messages';
-import { ArmMode, TextDescriptionType, Words } from './lib/enums';
-import { textDescriptionMaxRange } from './lib/types';
-import { leftPad } from './lib/utils';
+import { Counter, CustomSetting, FirmwareVersion, KeypadStatus, SystemTrouble, TemperatureReading, TimeOfDay } from './lib/models';
+import { AlarmMemory } from './lib/alarms';
+import { LightingCache } from './lib/lighting';
+import { TemperatureMonitor } from './lib/temperature';
+import * as thermostat from './lib/thermostat';
+import { Thermostat } from './lib/thermostat';
+import * as keypad from './lib/keypad';
+import { VirtualKeypad } from './lib/keypad';
+import * as enums from './lib/enums';
+import { ArmMode, ConnectionState, TemperatureGroup, TextDescriptionType, Words } from './lib/enums';
+import { commandCapabilities, textDescriptionMaxRange } from './lib/types';
+import { backoffDelay, leftPad, lightToHouseUnit, maskUserCode, wait } from './lib/utils';
 
 
 class Elk extends EventEmitter {
 
+  /**
+   * Current state of the connection to the Elk M1.
+   * 
+   * @type {ConnectionState}
+   */
+  public state: ConnectionState = ConnectionState.Disconnected;
+
+  /**
+   * When the last frame was received from the Elk M1.
+   * 
+   * @type {Date}
+   */
+  public lastFrameAt: Date = null;
+
+  /**
+   * Last known state of each keypad, by keypad id. Kept up to date from Keypad Key Change
+   * Updates (KC).
+   * 
+   * @type {Map<number, KeypadStatus>}
+   */
+  public keypads: Map<number, KeypadStatus> = new Map();
+
+  /**
+   * Zones that tripped an alarm, until their area is disarmed.
+   * 
+   * @type {AlarmMemory}
+   */
+  public alarmMemory: AlarmMemory = new AlarmMemory();
+
+  /**
+   * Active system troubles, from the last System Trouble Status (SS).
+   * 
+   * @type {SystemTrouble[]}
+   */
+  public troubles: SystemTrouble[] = [];
+
+  /**
+   * Firmware versions of the M1 and M1XEP, from the last Version Number Reply (VN). Commands
+   * the M1 firmware doesn't support are refused once it's known.
+   * 
+   * @type {VersionReport}
+   */
+  public version: VersionReport = null;
+
+  /**
+   * Last known level of each light.
+   * 
+   * @type {LightingCache}
+   */
+  public lights: LightingCache = new LightingCache();
+
+  /**
+   * Last known state of each thermostat, by thermostat id. Kept up to date from Thermostat
+   * Data Replies (TR).
+   * 
+   * @type {Map<number, ThermostatReply>}
+   */
+  public thermostats: Map<number, ThermostatReply> = new Map();
+
   private isAuthorized: boolean = false;
   private connection: any = null;
+  private transport: Transport = null;
+  private reconnectAttempts: number = 0;
+  private reconnectTimer: any = null;
+  private disconnecting: boolean = false;
+  private framer: ElkFramer = new ElkFramer();
+  private queue: CommandQueue;
+  private requests: RequestManager = new RequestManager();
+  private linkTimer: any = null;
+  private authTimer: any = null;
+  private credentialsSent: boolean = false;
+  private virtualKeypads: Map<number, VirtualKeypad> = new Map();
+  private thermostatControllers: Map<number, Thermostat> = new Map();
+  private zonePartitions: number[] = null;
+  private alarmStates: string[] = [];
+  private clockTimer: any = null;
+  private temperatureTimer: any = null;
+  private temperatureMonitor: TemperatureMonitor = null;
+  private sensorNames: Map<string, string> = new Map();
+  private alarmReportTimes: Map<string, number> = new Map();
 
   constructor(
     public port: number = 2101,
     public host: string = '192.168.1.0',
     public options: ConnectOptions = {
-      secure: false,
-      rejectUnauthorized: false,
-      secureProtocol: 'TLSv1_method'
+      secure: false
     }
   ) {
 
     super();
+
+    this.queue = new CommandQueue(this.options.commandInterval);
+    if (this.options.temperatureAlerts) {
+      this.temperatureMonitor = new TemperatureMonitor(this.options.temperatureAlerts.sensors);
+    }
+    this.framer.on('frame', (frame) => this.onFrameReceived(frame));
+    // Keypad codes must never appear in emitted messages or errors
+    this.framer.on('frameError', (raw) => this.emit('frameError', maskUserCode(raw)));
   }
 
   connect() {
+    this.disconnecting = false;
+    this.reconnectAttempts = 0;
+    this.clearReconnectTimer();
+    this.openConnection();
+  }
+
+  /**
+   * Opens a new connection to the M1XEP. Used by connect() and when reconnecting.
+   */
+  private openConnection() {
+    this.setState(ConnectionState.Connecting);
+    this.framer.reset();
+
+    this.transport = this.createTransport();
+    this.connection = this.transport.open(() => this.onConnect());
+
+    const connection = this.connection;
+
+    // latin1 keeps bytes of 128 and up, which ascii would mangle
+    connection.setEncoding('latin1');
+
+    // Listen for incoming data 
+    connection.on('data', (data) => this.onDataReceived(data));
+
+    // error event handler, reconnecting is handled by the close event
+    connection.on('error', (err) => {
+      this.onTlsError(err);
+
+      const message = err.code === 'ECONNREFUSED' ? 'Connection to M1XEP failed!' : err.message;
+      this.emit('error', new ElkConnectionError(message, err.code));
+    });
+
+    // close event handler
+    connection.on('close', () => {
+      // Ignore connections that have already been replaced
+      if (connection !== this.connection) {
+        return;
+      }
+
+      this.connection = null;
+      this.isAuthorized = false;
+      this.stopAuthTimer();
+
+      // Commands queued on the lost connection fail, new ones are buffered while reconnecting
+      this.queue.stop();
+      this.queue.flush(new ElkConnectionError('The connection to the Elk M1 was lost before the command was sent.'));
+      this.requests.rejectAll(new ElkConnectionError('The connection to the Elk M1 was lost before a reply was received.'));
+      this.emit('end', 'The connection to the Elk M1 has been lost');
+
+      if (this.disconnecting || this.options.reconnect === false) {
+        this.setState(ConnectionState.Disconnected);
+      } else {
+        this.scheduleReconnect();
+      }
+    });
+  }
+
+  /**
+   * Emits a tlsError, with the reason, for TLS handshake failures.
+   * 
+   * @param {*} err
+   */
+  private onTlsError(err) {
+    if (!(this.transport instanceof TlsTransport)) {
+      return;
+    }
+
+    const reason = getTlsErrorReason(err);
+
+    // Errors after the handshake, i.e. ECONNRESET, aren't TLS failures
+    if (reason !== 'unknown' || this.state === ConnectionState.Connecting) {
+      this.emit('tlsError', { reason, code: err.code, message: err.message });
+    }
+  }
+
+  /**
+   * Returns the transport given in the options, or a TCP/TLS transport to the M1XEP.
+   * 
+   * @returns {Transport}
+   */
+  private createTransport(): Transport {
+    if (this.options.transport) {
+      return this.options.transport;
+    }
+
     if (this.options.secure) {
-      this.connection = tslConnect(
-        this.port,
-        this.host,
-        {
-          rejectUnauthorized: this.options.rejectUnauthorized,
-          secureProtocol: this.options.secureProtocol
-        },
-        () => this.onConnect());
+      return new TlsTransport(this.host, this.port, this.tlsOptions());
     }
-    else {
-      this.connection = netConnect({
-        host: this.host,
-        port: this.port
-      },
-        () => this.onConnect());
+
+    return new TcpTransport(this.host, this.port);
+  }
+
+  /**
+   * Builds the TLS options from the connect options. Only options that were set are passed on,
+   * so Node's defaults apply to the rest.
+   * 
+   * @returns {TlsTransportOptions}
+   */
+  private tlsOptions(): TlsTransportOptions {
+    const options = this.options;
+    const tlsOptions: TlsTransportOptions = {
+      rejectUnauthorized: options.rejectUnauthorized === undefined ? !!options.ca : options.rejectUnauthorized
+    };
+
+    ['secureProtocol', 'minVersion', 'maxVersion', 'ca', 'cert', 'key', 'ciphers', 'fingerprint'].forEach((name) => {
+      if (options[name] !== undefined) {
+        tlsOptions[name] = options[name];
+      }
+    });
+
+    return tlsOptions;
+  }
+
+  /**
+   * Waits, based on the backoff options, before opening a new connection.
+   */
+  private scheduleReconnect() {
+    const backoff = this.options.backoff || {};
+
+    if (backoff.maxAttempts > 0 && this.reconnectAttempts >= backoff.maxAttempts) {
+      this.setState(ConnectionState.Disconnected);
+      this.emit('reconnectFailed', this.reconnectAttempts);
+      return;
     }
 
-    this.connection.setEncoding('ascii');
+    const delay = backoffDelay(this.reconnectAttempts, backoff);
+    this.reconnectAttempts++;
 
-    // Listen for incoming data 
-    this.connection.on('data', (data) => this.onDataReceived(data));
-
-    // error event handler
-    this.connection.on('error', (err) => {
-      if (err.code === 'ECONNREFUSED') {
-        this.emit('error', 'Connection to M1XEP failed!');
-      } else if (err.code === 'ECONNRESET') {
-        this.emit('error', err.code);
-        // connection was reset, attempt to reconnect
-        if (this.connection) {
-          this.connection.destroy();
+    // Set before emitting, so a listener calling disconnect() can cancel it
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openConnection();
+    }, delay);
+
+    this.setState(ConnectionState.BackingOff);
+    this.emit('reconnecting', this.reconnectAttempts, delay);
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  /**
+   * Moves the connection to a new state and emits a stateChange event.
+   * 
+   * @param {ConnectionState} state
+   */
+  private setState(state: ConnectionState) {
+    const previous = this.state;
+
+    if (state === previous) {
+      return;
+    }
+
+    this.state = state;
+
+    if (state === ConnectionState.Disconnected) {
+      this.queue.flush(new ElkConnectionError('Disconnected from the Elk M1.'));
+    }
+
+    if (state === ConnectionState.Ready) {
+      this.startLinkMonitor();
+      this.startClockSync();
+      this.startTemperatureAlerts();
+    } else {
+      this.stopLinkMonitor();
+      this.stopClockSync();
+      this.stopTemperatureAlerts();
+    }
+
+    this.emit('stateChange', state, previous);
+  }
+
+  /**
+   * Starts checking the panel clock, if clock sync is configured.
+   */
+  private startClockSync() {
+    const clockSync = this.options.clockSync;
+
+    this.stopClockSync();
+    if (clockSync) {
+      this.syncClock();
+      this.clockTimer = setInterval(() => this.syncClock(), clockSync.interval || 3600000);
+    }
+  }
+
+  private stopClockSync() {
+    if (this.clockTimer) {
+      clearInterval(this.clockTimer);
+      this.clockTimer = null;
+    }
+  }
+
+  /**
+   * Rewrites the panel clock if it has drifted past the threshold, and emits clockSynced
+   * with the correction applied.
+   */
+  private syncClock() {
+    const threshold = this.options.clockSync.threshold || 60000;
+    let previous: Date;
+
+    this.requestClock()
+      .then((clock) => {
+        previous = clock.date;
+        if (Math.abs(Date.now() - previous.getTime()) >= threshold) {
+          return this.setClock(new Date()).then((clock) => {
+            this.emit('clockSynced', {
+              previous,
+              date: clock.date,
+              correction: clock.date.getTime() - previous.getTime()
+            });
+          });
+        }
+      })
+      .catch(() => { });
+  }
+
+  /**
+   * Starts polling temperature sensors, if temperature alerts are configured.
+   */
+  private startTemperatureAlerts() {
+    this.stopTemperatureAlerts();
+    if (this.temperatureMonitor) {
+      this.pollTemperatures();
+      this.temperatureTimer = setInterval(() => this.pollTemperatures(), this.options.temperatureAlerts.interval || 300000);
+    }
+  }
+
+  private stopTemperatureAlerts() {
+    if (this.temperatureTimer) {
+      clearInterval(this.temperatureTimer);
+      this.temperatureTimer = null;
+    }
+  }
+
+  /**
+   * Reads each configured sensor in turn, and emits temperatureAlert for those that passed a threshold.
+   */
+  private pollTemperatures() {
+    this.temperatureMonitor.thresholds.reduce((previous, sensor) => previous
+      .then(() => this.requestTemperature(sensor.group, sensor.id))
+      .then((reading) => {
+        const alert = this.temperatureMonitor.check(reading);
+        if (alert) {
+          this.emit('temperatureAlert', alert);
         }
-        this.connect();
+      })
+      // A sensor that can't be read is tried again on the next poll
+      .catch(() => { }), Promise.resolve());
+  }
+
+  /**
+   * Starts watching for frames. If none arrive within the keepalive timeout the link is dead.
+   */
+  private startLinkMonitor() {
+    const timeout = this.keepaliveTimeout();
+
+    this.stopLinkMonitor();
+    if (timeout > 0) {
+      this.linkTimer = setTimeout(() => this.onLinkDown(), timeout);
+    }
+  }
+
+  private stopLinkMonitor() {
+    if (this.linkTimer) {
+      clearTimeout(this.linkTimer);
+      this.linkTimer = null;
+    }
+  }
+
+  private keepaliveTimeout(): number {
+    const keepalive = this.options.keepalive || {};
+    return keepalive.timeout === undefined ? 90000 : keepalive.timeout;
+  }
+
+  /**
+   * Nothing has been received for too long. Tear down the connection, the close handler
+   * takes care of reconnecting.
+   */
+  private onLinkDown() {
+    this.linkTimer = null;
+    this.emit('linkDown', this.lastFrameAt);
+
+    if (this.connection) {
+      this.connection.destroy();
+    }
+  }
+
+  onConnect() {
+    if (this.transport.requiresLogin) {
+      this.credentialsSent = false;
+      this.setState(ConnectionState.Authenticating);
+      this.startAuthTimer();
+    } else {
+      this.onReady();
+    }
+  }
+
+  /**
+   * The panel is ready for commands. Emitted once per connection.
+   */
+  private onReady() {
+    const connection = this.connection;
+
+    // Only a completed login counts as a successful reconnect, so failing logins keep backing off
+    this.reconnectAttempts = 0;
+    this.queue.start((frame, callback) => connection.write(`${frame}\r\n`, callback));
+    if (this.options.detectVersion) {
+      this.requestVersion().catch(() => { });
+    }
+    this.setState(ConnectionState.Ready);
+    this.emit('connected');
+    this.emit('ready');
+  }
+
+  private startAuthTimer() {
+    const timeout = this.options.authTimeout === undefined ? 15000 : this.options.authTimeout;
+
+    this.stopAuthTimer();
+    this.authTimer = setTimeout(() => {
+      this.authTimer = null;
+      this.onAuthFailed(new ElkAuthError('Login to the M1XEP did not complete in time.', 'timeout'));
+    }, timeout);
+  }
+
+  private stopAuthTimer() {
+    if (this.authTimer) {
+      clearTimeout(this.authTimer);
+      this.authTimer = null;
+    }
+  }
+
+  /**
+   * Handles the M1XEP login prompts. Returns any data received after a successful login.
+   * 
+   * @param {string} data
+   * @returns {string}
+   */
+  private authenticate(data: string): string {
+    const success = 'Elk-M1XEP: Login successful.';
+    const index = data.indexOf(success);
+
+    if (index !== -1) {
+      this.stopAuthTimer();
+      this.isAuthorized = true;
+      this.onReady();
+      return data.substring(index + success.length);
+    }
+
+    if (/login failed|invalid|incorrect|denied/i.test(data)) {
+      this.onAuthFailed(new ElkAuthError('The M1XEP rejected the user name or password.', 'rejected'));
+    } else if (data.indexOf('Username:') !== -1) {
+      // Asked again after sending the password, the login was rejected
+      if (this.credentialsSent) {
+        this.onAuthFailed(new ElkAuthError('The M1XEP rejected the user name or password.', 'rejected'));
       } else {
-        this.emit('error', err.code);
+        this.connection.write(this.options.userName + '\r\n');
       }
-    });
+    } else if (data.indexOf('Password:') !== -1) {
+      this.credentialsSent = true;
+      this.connection.write(this.options.password + '\r\n');
+    }
 
-    // close event handler
-    this.connection.on('close', () => {
-      this.emit('end', 'The connection to the Elk M1 has been lost');
+    return '';
+  }
+
+  /**
+   * Emits authFailed and closes the connection. Rejected credentials won't get better by
+   * retrying, so only a timeout is followed by a reconnect.
+   * 
+   * @param {ElkAuthError} err
+   */
+  private onAuthFailed(err: ElkAuthError) {
+    this.stopAuthTimer();
+    this.emit('authFailed', err);
+
+    if (err.reason === 'rejected') {
+      this.disconnecting = true;
+    }
+
+    if (this.connection) {
+      this.connection.destroy();
+    }
+  }
+
+  onDataReceived(data) {
+    // Only transports with a login (M1XEP secure port) send auth requests
+    if (this.transport.requiresLogin) {
+      if (!this.isAuthorized) {
+        data = this.authenticate(data);
+      }
+
+      // we are getting a weird message during auth process
+      if (!this.isAuthorized || data === '' || data.substring(0, 2) === '**') {
+        return;
+      }
+    }
+
+    // Data may hold partial or multiple frames, the framer emits whole frames.
+    this.framer.push(data);
+  }
+
+  /**
+   * Parses and emits a complete frame received from the Elk M1.
+   * 
+   * @param {string} frame
+   */
+  private onFrameReceived(frame: string) {
+    let elkMessage;
+
+    this.lastFrameAt = new Date();
+    if (this.linkTimer) {
+      this.linkTimer.refresh();
+    }
+
+    try {
+      // Parse message using Elk factory method
+      elkMessage = getElkMessage(frame, this.version ? this.version.m1Version : undefined);
+    } catch (e) {
+      this.emit('frameError', maskUserCode(frame), e);
+      return;
+    }
+
+    // Settle any request waiting for this reply first, so a throwing listener can't leave it hanging
+    this.requests.handle(elkMessage);
+
+    try {
+      this.answerTest(elkMessage);
+
+      if (elkMessage instanceof AlarmReport) {
+        this.answerAlarmReport(elkMessage);
+      }
+
+      this.trackAlarms(elkMessage);
+
+      if (elkMessage instanceof VersionReport) {
+        this.version = elkMessage;
+      } else if (elkMessage instanceof LightingChangeUpdate || elkMessage instanceof LightingPollResponse) {
+        this.lights.update(elkMessage.id, elkMessage.level);
+      } else if (elkMessage instanceof LightingStatusReport) {
+        elkMessage.lights.forEach((light) => this.lights.update(light.id, light.level));
+      } else if (elkMessage instanceof ThermostatReply) {
+        this.updateThermostat(elkMessage);
+      }
+
+      if (elkMessage instanceof SystemTroubleStatus) {
+        this.updateTroubles(elkMessage);
+      }
+
+      if (elkMessage instanceof KeypadKeyChangeUpdate) {
+        this.updateKeypad(elkMessage);
+      } else if (elkMessage instanceof KeypadFunctionKeypress) {
+        const virtualKeypad = this.virtualKeypads.get(elkMessage.keypadId);
+        if (virtualKeypad) {
+          virtualKeypad.handle(elkMessage);
+        }
+      }
+
+      // Emit message
+      this.emit('*', elkMessage);
+      this.emit(elkMessage.type, elkMessage);
+    } catch (e) {
+      // Don't let a listener's exception escape into the connection's data handler
+      this.emit('error', e);
+    }
+  }
+
+  /**
+   * Acknowledges Ethernet tests. AT always needs an at reply, XK only when configured.
+   * 
+   * @param {ElkMessage} elkMessage
+   */
+  private answerTest(elkMessage) {
+    const keepalive = this.options.keepalive || {};
+
+    if (elkMessage.type === 'AT') {
+      this.send('at', true).catch(() => { });
+    } else if (elkMessage.type === 'XK' && keepalive.answerEthernetTest) {
+      this.send('xk', true).catch(() => { });
+    }
+  }
+
+  /**
+   * Acknowledges an Alarm Report unless that's left to the caller, and emits alarmReport. The
+   * panel resends a report until it's acknowledged, so repeats within the dedup window aren't
+   * emitted again.
+   * 
+   * @param {AlarmReport} report
+   */
+  private answerAlarmReport(report: AlarmReport) {
+    const options = this.options.alarmReports || {};
+    const dedupWindow = options.dedupWindow === undefined ? 60000 : options.dedupWindow;
+    const now = Date.now();
+    const key = [report.account, report.qualifier, report.eventCode, report.partition, report.id].join(':');
+
+    // A repeat may mean the last acknowledgement was lost, so it's acknowledged again
+    if (options.autoAcknowledge !== false) {
+      this.acknowledgeAlarmReport().catch(() => { });
+    }
+
+    this.alarmReportTimes.forEach((at, key) => {
+      if (now - at >= dedupWindow) {
+        this.alarmReportTimes.delete(key);
+      }
     });
+
+    if (!this.alarmReportTimes.has(key)) {
+      this.alarmReportTimes.set(key, now);
+      this.emit('alarmReport', report);
+    }
+  }
+
+  /**
+   * Keeps the alarm memory up to date. When an area goes into alarm the panel is asked which
+   * zones caused it, and asked again each time another zone is violated while it's in alarm.
+   * An area's zones are forgotten once it's disarmed.
+   * 
+   * @param {ElkMessage} elkMessage
+   */
+  private trackAlarms(elkMessage: ElkMessage) {
+    const notAlarms = ['No Alarm Active', 'Entrance Delay is Active', 'Alarm Abort Delay Active'];
+
+    if (elkMessage instanceof ZonePartitionReport) {
+      this.zonePartitions = elkMessage.zones.map((zone) => zone.partition);
+    } else if (elkMessage instanceof AlarmByZoneReport) {
+      this.alarmMemory.record(elkMessage, this.zonePartitions);
+    } else if (elkMessage instanceof ZoneChangeUpdate && elkMessage.logicalState === 'Violated') {
+      this.alarmMemory.violated(elkMessage.id);
+
+      // A zone tripping in an area that's already in alarm doesn't change the arming status,
+      // so ask again which zones are in alarm
+      const area = this.zonePartitions ? this.zonePartitions[elkMessage.id - 1] : null;
+      const alarmStates = area ? [this.alarmStates[area - 1]] : this.alarmStates;
+      if (alarmStates.some((state) => state !== undefined && notAlarms.indexOf(state) === -1)) {
+        this.requestAlarmByZone().catch(() => { });
+      }
+    } else if (elkMessage instanceof ArmingStatusReport) {
+      let alarmRaised = false;
+
+      elkMessage.areas.forEach((area, i) => {
+        if (notAlarms.indexOf(area.alarmState) === -1 && area.alarmState !== this.alarmStates[i]) {
+          alarmRaised = true;
+        }
+        if (area.armStatus === 'Disarmed') {
+          this.alarmMemory.clear(area.id);
+        }
+      });
+      this.alarmStates = elkMessage.areas.map((area) => area.alarmState);
+
+      // Zones with an unknown area are only forgotten once every area is disarmed
+      if (elkMessage.areas.every((area) => area.armStatus === 'Disarmed')) {
+        this.alarmMemory.clear();
+      }
+
+      if (alarmRaised) {
+        const partitions = this.zonePartitions ? Promise.resolve(null) : this.requestZonePartitionReport();
+        partitions
+          .then(() => this.requestAlarmByZone())
+          .catch(() => { });
+      }
+    }
+  }
+
+  /**
+   * Records the active troubles, emitting troubleRaised and troubleCleared for each trouble
+   * that changed.
+   * 
+   * @param {SystemTroubleStatus} status
+   */
+  private updateTroubles(status: SystemTroubleStatus) {
+    const same = (a: SystemTrouble) => (b: SystemTrouble) => a.name === b.name && a.zoneId === b.zoneId;
+    const previous = this.troubles;
+
+    this.troubles = status.troubles;
+    previous
+      .filter((trouble) => !this.troubles.some(same(trouble)))
+      .forEach((trouble) => this.emit('troubleCleared', trouble));
+    this.troubles
+      .filter((trouble) => !previous.some(same(trouble)))
+      .forEach((trouble) => this.emit('troubleRaised', trouble));
+  }
+
+  /**
+   * Records the state of a thermostat and emits thermostatChange.
+   * 
+   * @param {ThermostatReply} reply
+   */
+  private updateThermostat(reply: ThermostatReply) {
+    const id = +reply.id;
+
+    // Thermostat 0 is sent for an invalid thermostat
+    if (!(id >= 1)) {
+      return;
+    }
+
+    this.thermostats.set(id, reply);
+    if (this.thermostatControllers.has(id)) {
+      this.thermostatControllers.get(id).update(reply);
+    }
+    this.emit('thermostatChange', reply);
+  }
+
+  /**
+   * Records the state of a keypad and emits keypadChange. The last key is kept for
+   * status only updates.
+   * 
+   * @param {KeypadKeyChangeUpdate} update
+   */
+  private updateKeypad(update: KeypadKeyChangeUpdate) {
+    const previous = this.keypads.get(update.keypadId);
+    const lastKey = update.key === 'No Key' && previous ? previous.lastKey : update.key;
+    const status = new KeypadStatus(
+      update.keypadId,
+      lastKey,
+      update.functionKeys,
+      update.chimeModes,
+      update.bypassCodeRequired
+    );
+
+    this.keypads.set(update.keypadId, status);
+    if (this.virtualKeypads.has(update.keypadId)) {
+      this.virtualKeypads.get(update.keypadId).update(status);
+    }
+    this.emit('keypadChange', status, update);
+  }
+
+  /**
+   * Sends a request and waits for the matching reply. The request is resent when the reply
+   * times out, up to options.retries times, and can be cancelled with options.signal.
+   * 
+   * @template T
+   * @param {string} command - Command and data, i.e. 'as'.
+   * @param {ReplyOptions} reply - Reply type, matching and description.
+   * @param {(number | RequestOptions)} options - Timeout in ms, or request options.
+   * @returns {Promise<T>}
+   */
+  private request<T>(command: string, reply: ReplyOptions, options: number | RequestOptions): Promise<T> {
+    const { timeout, signal, retries, retryBackoff } = this.requestOptions(options);
+    const backoff = Object.assign({ initialDelay: 250, jitter: 0 }, retryBackoff);
+
+    const attempt = (count: number): Promise<T> => {
+      if (signal && signal.aborted) {
+        return Promise.reject(new ElkAbortError());
+      }
+
+      // Only the command type goes in errors, the data may hold codes
+      const pending: PendingRequestOptions = Object.assign({ command: command.substring(0, 2), timeout }, reply);
+      const onAbort = () => this.requests.cancel(pending, new ElkAbortError());
+      const cleanup = () => {
+        if (signal) {
+          signal.removeEventListener('abort', onAbort);
+        }
+      };
+
+      const response = this.requests.register<T>(pending);
+      if (signal) {
+        signal.addEventListener('abort', onAbort, { once: true });
+      }
+      this.send(command).then(() => this.requests.start(pending), (err) => this.requests.cancel(pending, err));
+
+      return response.then((result) => {
+        cleanup();
+        return result;
+      }, (err) => {
+        cleanup();
+        // The panel sometimes ignores a request while it is busy, so try again
+        if (err instanceof ElkTimeoutError && count < retries) {
+          return wait(backoffDelay(count, backoff), signal).then(() => attempt(count + 1));
+        }
+        throw err;
+      });
+    };
+
+    return attempt(0);
+  }
+
+  /**
+   * Fills in the defaults for request options. A number is taken as the timeout.
+   * 
+   * @param {(number | RequestOptions)} options
+   * @param {number} [timeout=5000] - Default timeout.
+   * @returns {RequestOptions}
+   */
+  private requestOptions(options: number | RequestOptions, timeout: number = 5000): RequestOptions {
+    if (typeof options === 'number') {
+      options = { timeout: options };
+    }
+
+    return Object.assign({ timeout, retries: 0 }, options);
+  }
+
+  /**
+   * Queues a command for the Elk M1. Commands issued while reconnecting are buffered
+   * and sent once the connection is ready.
+   * 
+   * @param {string} command - Command and data, i.e. 'zs'.
+   * @param {boolean} [priority=false] - Send ahead of other queued commands.
+   * @returns {Promise<void>} Resolved once the command has been written.
+   */
+  private send(command: string, priority: boolean = false): Promise<void> {
+    let sent: Promise<void>;
+    const type = command.substring(0, 2);
+    const requiredVersion = commandCapabilities.get(type);
+
+    if (this.state === ConnectionState.Disconnected) {
+      sent = Promise.reject(new ElkConnectionError('Not connected to the Elk M1.'));
+    } else if (this.version && requiredVersion && !this.version.m1Version.atLeast(FirmwareVersion.parse(requiredVersion))) {
+      sent = Promise.reject(new ElkCapabilityError(type, requiredVersion, this.version.m1Version.toString()));
+    } else {
+      sent = this.queue.enqueue(new ElkMessage(command, null).message, priority);
+    }
+
+    // Commands were fire and forget before they returned a promise, so a caller that ignores
+    // it mustn't get an unhandled rejection. Callers that chain on it still see the error.
+    sent.catch(() => { });
+    return sent;
+  }
+
+  /**
+   * Arm an Area by id.
+   * 
+   * @param {number} areaId
+   * @param {ArmMode} armMode
+   * @param {string} keypadCode
+   */
+  arm(areaId: number, armMode: ArmMode, keypadCode: string): Promise<void> {
+    return this.send(`a${armMode}${areaId}${leftPad(keypadCode, 6, '0')}`);
+  }
+
+  
+  /**
+   * Disarm an Area by id.
+   * 
+   * @param {number} areaId
+   * @param {string} keypadCode
+   */
+  disarm(areaId: number, keypadCode: string): Promise<void> {
+    // Disarm jumps ahead of any queued commands
+    return this.send(`a0${areaId}${leftPad(keypadCode, 6, '0')}`, true);
+  }
+
+  
+  /**
+   * Activates a task. The task is deactivated when it completes.
+   * 
+   * @param {number} taskId
+   */
+  activateTask(taskId: number): Promise<void> {
+    return this.send(`tn${leftPad(taskId.toString(), 3, '0')}`);
+  }
+  
+  /**
+   * Turn output on.
+   * 
+   * @param {number} outputId
+   * @param {number} seconds - Number of seconds output will be active
+   */
+  setOutputOn(outputId: number, seconds: number): Promise<void> {
+    return this.send(`cn${leftPad(outputId.toString(), 3, '0')}${leftPad(seconds.toString(),5,'0')}`);
+  }
+
+  /**
+   * Turn output off.
+   * 
+   * @param {number} outputId
+   */
+  setOutputOff(outputId: number): Promise<void> {
+    return this.send(`cf${leftPad(outputId.toString(), 3, '0')}`);
+  }
+  
+  
+  /**
+   * Command Elk panel to speak a message over it's speaker.
+   * 
+   * @param {string} message
+   */
+  speak(message: string): Promise<void> {
+    let words = message.split(' ');
+
+    // Words are queued, and paced, so the panel doesn't drop any
+    const spoken = Promise.all(words.map(word => {
+      let index = Words[word.toLowerCase()];
+      return this.send(`sw${leftPad(index, 3, '0')}`);
+    })).then(() => undefined);
+
+    // Like send, safe to ignore
+    spoken.catch(() => { });
+    return spoken;
+  }
+  
+  /**
+   * Toggles a control Output On/Off.
+   * 
+   * @param {number} outputId
+   */
+  toggleOutput(outputId: number): Promise<void> {
+    return this.send(`ct${leftPad(outputId.toString(), 3, '0')}`);
+  }
+
+  
+  /**
+   * Request the Control Output Status report from Elk panel.
+   * 
+   * @param {(number | RequestOptions)} [options] - Timeout in ms, or request options.
+   * @returns
+   */
+  requestOutputStatusReport(options: number | RequestOptions = {}): Promise<OutputStatusReport> {
+    return this.request('cs', { type: 'CS', description: 'Control Output Status' }, options);
+  }
+  
+  /**
+   * Bypass a Zone.
+   * 
+   * @param {number} zoneId - Zone number (1-208).
+   * @param {number} areaId - Area number (1-8).
+   * @param {string} keypadCode - 4 or 6 digits.
+   * @returns {Promise<void>} Rejects with an ElkValidationError if an argument is missing or out of range.
+   */
+  bypassZone(zoneId: number, areaId: number, keypadCode: string): Promise<void> {
+    if (zoneId === null || zoneId === undefined) {
+      return Promise.reject(new ElkValidationError('Zone id is a required option', 'zoneId'));
+    }
+    if (!(Number.isInteger(zoneId) && zoneId >= 1 && zoneId <= 208)) {
+      return Promise.reject(new ElkValidationError('The zoneId parameter is outside accepted range.', 'zoneId'));
+    }
+    if (!(Number.isInteger(areaId) && areaId >= 1 && areaId <= 8)) {
+      return Promise.reject(new ElkValidationError('The areaId parameter is outside accepted range.', 'areaId'));
+    }
+    if (!/^\d{4}(\d{2})?$/.test(keypadCode)) {
+      return Promise.reject(new ElkValidationError('The keypadCode parameter must be 4 or 6 digits.', 'keypadCode'));
+    }
+    return this.send(`zb${leftPad(zoneId.toString(), 3, '0')}${areaId}${leftPad(keypadCode, 6, '0')}`);
+  }
+
+  /**
+   * Requests the zones that are in alarm, with the zone definition that caused the alarm.
+   * 
+   * @param {(number | RequestOptions)} [options] - Timeout in ms, or request options.
+   * @returns {Promise<AlarmByZoneReport>}
+   */
+  requestAlarmByZone(options: number | RequestOptions = {}): Promise<AlarmByZoneReport> {
+    return this.request('az', { type: 'AZ', description: 'Alarm By Zone' }, options);
+  }
+
+  /**
+   * Requests an Arming Status Report from the Elk panel.
+   * 
+   * @param {(number | RequestOptions)} [options] - Timeout in ms, or request options.
+   * @returns {ArmingStatusReport}
+   */
+  requestArmingStatus(options: number | RequestOptions = {}): Promise<ArmingStatusReport> {
+    return this.request('as', { type: 'AS', description: 'Arming Status' }, options);
+  }
+
+  
+  /**
+   * Gets the virtual keypad for a keypad id. The same instance is returned for every call.
+   * 
+   * @param {number} id - Keypad id (1-16).
+   * @returns {VirtualKeypad}
+   */
+  keypad(id: number): VirtualKeypad {
+    if (!(id >= 1 && id <= 16)) {
+      throw new ElkValidationError('The id parameter is outside accepted range.', 'id');
+    }
+
+    if (!this.virtualKeypads.has(id)) {
+      this.virtualKeypads.set(id, new VirtualKeypad(id, (command, reply, options) =>
+        this.request(command, reply, options), this.keypads.get(id)));
+    }
+
+    return this.virtualKeypads.get(id);
+  }
+
+  /**
+   * Request Keypad Area assignments.
+   * 
+   * @param {(number | RequestOptions)} [options] - Timeout in ms, or request options.
+   * @returns {Promise<number[]>}
+   * 
+   * @memberOf Elk
+   */
+  requestAreas(options: number | RequestOptions = {}): Promise<number[]> {
+    return this.request('ka', { type: 'KA', description: 'Area request' }, options);
+  }
+
+  /**
+   * Requests a Zone Definition Report from the Elk panel.
+   * 
+   * @param {(number | RequestOptions)} [options] - Timeout in ms, or request options.
+   * @returns {ZoneDefinitionReport}
+   */
+  requestZoneDefinitionReport(options: number | RequestOptions = {}): Promise<ZoneDefinitionReport> {
+    return this.request('zd', { type: 'ZD', description: 'Zone Definition' }, options);
+  }
+
+  
+  /**
+   * Requests a Zone Partition Report from the Elk panel.
+   * 
+   * @param {(number | RequestOptions)} [options] - Timeout in ms, or request options.
+   * @returns {ZonePartitionReport}
+   */
+  requestZonePartitionReport(options: number | RequestOptions = {}): Promise<ZonePartitionReport> {
+    return this.request('zp', { type: 'ZP', description: 'Zone Partition' }, options);
+  }
+
+  
+  /**
+   * Requests a Zone Status Report from the Elk panel.
+   * 
+   * @param {(number | RequestOptions)} [options] - Timeout in ms, or request options.
+   * @returns {ZoneStatusReport}
+   */
+  requestZoneStatusReport(options: number | RequestOptions = {}): Promise<ZoneStatusReport> {
+    return this.request('zs', { type: 'ZS', description: 'Zone Status Report' }, options);
+  }
+
+  /**
+   * Request zone voltage report
+   * 
+   * @param {number} id
+   * @param {(number | RequestOptions)} [options] - Timeout in ms, or request options.
+   * @returns {Promise<ZoneVoltageReport>}
+   * 
+   * @memberOf Elk
+   */
+  requestZoneVoltageReport(id: number, options: number | RequestOptions = {}): Promise<ZoneVoltageReport> {
+    return this.request(`zv${leftPad(id.toString(), 3, 0)}`, {
+      type: 'ZV',
+      description: 'Zone Voltage Report',
+      match: (reply: ZoneVoltageReport) => reply.id === id
+    }, options);
+  }
+  
+  /**
+   * Request text description
+   * 
+   * @param {number} id
+   * @param {TextDescriptionType} type
+   * @param {(number | RequestOptions)} [options] - Timeout in ms, or request options.
+   * @returns {Promise<TextStringDescriptionReport>}
+   * 
+   * @memberOf Elk
+   */
+  requestTextDescription(id: number, type: TextDescriptionType, options: number | RequestOptions = {}): Promise<TextStringDescriptionReport> {
+    return this.request(`sd${leftPad(type.toString(), 2, 0)}${leftPad(id.toString(), 3, 0)}`, {
+      type: 'SD',
+      description: 'Text Description',
+      // The panel replies with the next configured id, or 0 if there are none
+      match: (reply: TextStringDescriptionReport) => reply.descriptionType === TextDescriptionType[type]
+        && (reply.id >= id || reply.id === 0)
+    }, options);
   }
 
-  onConnect() {
-    this.emit('connected');
+  
+  /**
+   * Asynchronous call to retreive a Text Description, using a callback.
+   * @deprecated Use requestTextDescription.
+   * @param {number} id
+   * @param {TextDescriptionType} type
+   * @param {any} cb
+   * @param {number} [timeout=15000]
+   */
+  getDescription(id: number, type: TextDescriptionType, cb, timeout = 15000) {
+    this.requestTextDescription(id, type, timeout)
+      .then((response) => cb(response), (err) => cb({ error: err }));
   }
 
-  onDataReceived(data) {
-    // check for elk auth requests
-    if (data == 'Username:') {
-      return this.connection.write(this.options.userName + '\r\n');
-    } else if (data.indexOf('Password:') != -1) {
-      return this.connection.write(this.options.password + '\r\n');
-    } else if (data.indexOf('Elk-M1XEP: Login successful.') !== -1) {
-      this.isAuthorized = true;
-      this.emit('connected');
-      return;
-    }
-
-    // we are getting a weird message during auth process
-    if (this.options.secure && (!this.isAuthorized || data.substring(0, 2) === '**')) {
-      return;
-    }
-
-    try
-    {
-    // Split on newline in case multiple messages are received at one time.
-    let messages: Array<string> = data.trim().split('\n');
+  
+  /**
+   * Method returns the configured Text Descriptions, by type. We start at id=1.
+   * If the requested id is not configured, Elk will return the next configured item (to speed up requests)
+   * or 000 if no more valid names are found. Consult RS232 protocol guide for more info on SD messages.
+   * So we'll recursively query the panel until we reach the max length, by type, or receive 000.
+   * NOTE: This can be used to determine what has been configured on panel since a description is not returned
+   * for unconfigured items. Useful for Tasks, Outputs, etc that don't have an Api call for retreving
+   * configuration/definition.
+   * If options.signal is aborted the promise rejects with an ElkAbortError, which holds the descriptions
+   * received so far in results.
+   * @param {string} type
+   * @param {(number | RequestOptions)} [options] - Timeout in ms (default 15000) for each description, or request options.
+   * @returns {TextStringDescriptionReport}
+   */
+  requestTextDescriptionAll(type: TextDescriptionType, options: number | RequestOptions = {}): Promise<TextStringDescriptionReport[]> {
+    const requestOptions = this.requestOptions(options, 15000);
+    // Text Description items received from panel
+    const items: TextStringDescriptionReport[] = [];
 
-    messages.forEach((message, index) => {
-      // Remove carriage return
-      message = message.replace('\r', '');
+    const recursiveCall = (id: number): Promise<TextStringDescriptionReport[]> => {
+      return this.requestTextDescription(id, type, requestOptions).then((data) => {
+        // If the returned id == 0, then no more configured items.
+        if (data.id > 0 && id < textDescriptionMaxRange[TextDescriptionType[type]]) {
+          //panel returned a text description
+          items.push(data);
+          // Since panel returns the 'next' configured item, we need set the id to 
+          // the last retreived one, and increment to next item.
+          return recursiveCall(data.id + 1);
+        }
 
-      // Parse message using Elk factory method
-      let elkMessage = getElkMessage(message);
+        // Return items to caller
+        return items;
+      });
+    };
 
-      // Emit message
-      this.emit('*', elkMessage);
-      this.emit(elkMessage.type, elkMessage);
+    // Promise is resolved when all items have been received.
+    return recursiveCall(1).catch((err) => {
+      if (err instanceof ElkAbortError) {
+        throw new ElkAbortError(err.message, items);
+      }
+      throw err;
     });
-    } catch (e){
-      this.emit('error', e);
-    }
   }
 
   /**
-   * Arm an Area by id.
+   * Requests the panel's date and time.
    * 
-   * @param {number} areaId
-   * @param {ArmMode} armMode
-   * @param {string} keypadCode
+   * @param {(number | RequestOptions)} [options] - Timeout in ms, or request options.
+   * @returns {Promise<RealTimeClockData>}
    */
-  arm(areaId: number, armMode: ArmMode, keypadCode: string) {
-    let elk = new ElkMessage(`a${armMode}${areaId}${leftPad(keypadCode, 6, '0')}`, null);
-    this.connection.write(`${elk.message}\r\n`);
+  requestClock(options: number | RequestOptions = {}): Promise<RealTimeClockData> {
+    return this.request('rr', { type: 'RR', description: 'Real Time Clock' }, options);
   }
 
-  
   /**
-   * Disarm an Area by id.
+   * Sets the panel's date and time.
    * 
-   * @param {number} areaId
-   * @param {string} keypadCode
+   * @param {Date} [date] - Defaults to the host's current time.
+   * @param {(number | RequestOptions)} [options] - Timeout in ms, or request options.
+   * @returns {Promise<RealTimeClockData>} The date and time reported back by the panel.
    */
-  disarm(areaId: number, keypadCode: string) {
-    let elk = new ElkMessage(`a0${areaId}${leftPad(keypadCode, 6, '0')}`, null);
-    this.connection.write(`${elk.message}\r\n`);
+  setClock(date: Date = new Date(), options: number | RequestOptions = {}): Promise<RealTimeClockData> {
+    const pad = (n: number) => leftPad(n.toString(), 2, '0');
+    const data = pad(date.getSeconds())
+      + pad(date.getMinutes())
+      + pad(date.getHours())
+      + (date.getDay() + 1)
+      + pad(date.getDate())
+      + pad(date.getMonth() + 1)
+      + pad(date.getFullYear() % 100);
+
+    return this.request(`rw${data}`, { type: 'RR', description: 'Real Time Clock' }, options);
   }
 
-  
   /**
-   * Activates a task. The task is deactivated when it completes.
+   * Turns a light on.
    * 
-   * @param {number} taskId
+   * @param {number} id - Light id (1-256), light 17 is B1.
+   * @returns {Promise<void>}
    */
-  activateTask(taskId: number) {
-    let elk = new ElkMessage(`tn${leftPad(taskId.toString(), 3, '0')}`, null);
-    this.connection.write(`${elk.message}\r\n`);
+  turnLightOn(id: number): Promise<void> {
+    return this.lightCommand('pn', id);
   }
-  
+
   /**
-   * Turn output on.
+   * Turns a light off.
    * 
-   * @param {number} outputId
-   * @param {number} seconds - Number of seconds output will be active
+   * @param {number} id - Light id (1-256).
+   * @returns {Promise<void>}
    */
-  setOutputOn(outputId: number, seconds: number) {
-    let elk = new ElkMessage(`cn${leftPad(outputId.toString(), 3, '0')}${leftPad(seconds.toString(),5,'0')}`, null);
-    this.connection.write(`${elk.message}\r\n`);
+  turnLightOff(id: number): Promise<void> {
+    return this.lightCommand('pf', id);
   }
 
   /**
-   * Turn output off.
+   * Toggles a light on/off.
    * 
-   * @param {number} outputId
+   * @param {number} id - Light id (1-256).
+   * @returns {Promise<void>}
    */
-  setOutputOff(outputId: number) {
-    let elk = new ElkMessage(`cf${leftPad(outputId.toString(), 3, '0')}`, null);
-    this.connection.write(`${elk.message}\r\n`);
+  toggleLight(id: number): Promise<void> {
+    return this.lightCommand('pt', id);
   }
-  
-  
+
   /**
-   * Command Elk panel to speak a message over it's speaker.
+   * Dims a light to a level, over the ramp time.
    * 
-   * @param {string} message
+   * @param {number} id - Light id (1-256).
+   * @param {number} percent - Light level (0-99).
+   * @param {number} [rampSeconds=0] - Time to reach the level (0-9999).
+   * @returns {Promise<void>}
    */
-  speak(message: string) {
-    let words = message.split(' ');
+  setLightLevel(id: number, percent: number, rampSeconds: number = 0): Promise<void> {
+    if (!(percent >= 0 && percent <= 99)) {
+      return Promise.reject(new ElkValidationError('The percent parameter is outside accepted range.', 'percent'));
+    }
+    if (!(rampSeconds >= 0 && rampSeconds <= 9999)) {
+      return Promise.reject(new ElkValidationError('The rampSeconds parameter is outside accepted range.', 'rampSeconds'));
+    }
 
-    words.forEach(word => {
-      let index = Words[word.toLowerCase()];
-      let elk = new ElkMessage(`sw${leftPad(index, 3, '0')}`, null);
-      this.connection.write(`${elk.message}\r\n`);      
-    });
+    // Function 09 sets a preset dim level
+    const data = `09${leftPad(Math.round(percent).toString(), 2, '0')}${leftPad(Math.round(rampSeconds).toString(), 4, '0')}`;
+    return this.lightCommand('pc', id, data);
   }
-  
+
   /**
-   * Toggles a control Output On/Off.
+   * Requests the levels of the 64 lights in a bank. Bank 0 is A1-D16, bank 1 E1-H16,
+   * bank 2 I1-L16 and bank 3 M1-P16.
    * 
-   * @param {number} outputId
+   * @param {number} bank - Bank (0-3).
+   * @param {(number | RequestOptions)} [options] - Timeout in ms, or request options.
+   * @returns {Promise<LightingStatusReport>}
    */
-  toggleOutput(outputId: number) {
-    let elk = new ElkMessage(`ct${leftPad(outputId.toString(), 3, '0')}`, null);
-    this.connection.write(`${elk.message}\r\n`);
+  requestLightingStatus(bank: number, options: number | RequestOptions = {}): Promise<LightingStatusReport> {
+    if (!(bank >= 0 && bank <= 3)) {
+      return Promise.reject(new ElkValidationError('The bank parameter is outside accepted range.', 'bank'));
+    }
+
+    return this.request(`ps${bank}`, {
+      type: 'PS',
+      description: 'PLC Status',
+      match: (reply: LightingStatusReport) => reply.bank === bank
+    }, options);
   }
 
-  
   /**
-   * Request the Control Output Status report from Elk panel.
+   * Requests the level of a single light.
    * 
-   * @param {number} [timeout=5000]
-   * @returns
+   * @param {number} id - Light id (1-256).
+   * @param {(number | RequestOptions)} [options] - Timeout in ms, or request options.
+   * @returns {Promise<LightingPollResponse>}
    */
-  requestOutputStatusReport(timeout = 5000): Promise<OutputStatusReport> {
-    return new Promise((resolve, reject) => {
-      //Listen for response
-      this.once('CS', (response) => {
-        resolve(response);
-      });
-
-      //Send the command
-      let elk = new ElkMessage('cs', null);
-      this.connection.write(`${elk.message}\r\n`);
+  requestLightLevel(id: number, options: number | RequestOptions = {}): Promise<LightingPollResponse> {
+    if (!(Number.isInteger(id) && id >= 1 && id <= 256)) {
+      return Promise.reject(new ElkValidationError('The id parameter is outside accepted range.', 'id'));
+    }
 
-      //Setup timeout
-      setTimeout(function () {
-        reject('Timout occured before Control Output Status (cs) was received.');
-      }, timeout);
-    });
+    return this.request(`ds${leftPad(id.toString(), 3, '0')}`, {
+      type: 'DS',
+      description: 'Lighting Poll',
+      match: (reply: LightingPollResponse) => reply.id === id
+    }, options);
   }
-  
+
   /**
-   * Bypass a Zone.
+   * Sends a lighting command addressed by house code and unit, i.e. pnA01.
    * 
-   * @param {number} zoneId
-   * @param {number} areaId
-   * @param {string} keypadCode
+   * @param {string} command
+   * @param {number} id - Light id (1-256).
+   * @param {string} [data='']
+   * @returns {Promise<void>}
    */
-  bypassZone(zoneId: number, areaId: number, keypadCode: string) {
-    if (zoneId === null) {
-      throw new TypeError('Zone id is a required option');
+  private lightCommand(command: string, id: number, data: string = ''): Promise<void> {
+    if (!(Number.isInteger(id) && id >= 1 && id <= 256)) {
+      return Promise.reject(new ElkValidationError('The id parameter is outside accepted range.', 'id'));
     }
-    let elk = new ElkMessage(`zb${leftPad(zoneId.toString(), 3, '0')}${areaId}${leftPad(keypadCode, 6, '0')}`, null);
-    this.connection.write(`${elk.message}\r\n`);
+
+    return this.send(`${command}${lightToHouseUnit(id)}${data}`);
   }
 
   /**
-   * Requests an Arming Status Report from the Elk panel.
+   * Changes a user code. The codes are never included in emitted messages or errors.
    * 
-   * @param {number} [timeout=5000]
-   * @returns {ArmingStatusReport}
+   * @param {number} userId - User number (1-199).
+   * @param {string} masterCode - Code allowed to change user codes, 4 or 6 digits.
+   * @param {string} newCode - New code, 4 or 6 digits.
+   * @param {number[]} areas - Areas (1-8) the new code can control.
+   * @param {(number | RequestOptions)} [options] - Timeout in ms, or request options.
+   * @returns {Promise<UserCodeChangeReply>} Rejects with an ElkAuthError if the master code isn't
+   * authorized, or an ElkValidationError if the new code is already in use.
    */
-  requestArmingStatus(timeout = 5000): Promise<ArmingStatusReport> {
-    return new Promise((resolve, reject) => {
-      //Listen for response
-      this.once('AS', (response) => {
-        resolve(response);
+  changeUserCode(userId: number, masterCode: string, newCode: string, areas: number[], options: number | RequestOptions = {}): Promise<UserCodeChangeReply> {
+    const codePattern = /^\d{4}(\d{2})?$/;
+
+    if (!(userId >= 1 && userId <= 199)) {
+      return Promise.reject(new ElkValidationError('The userId parameter is outside accepted range.', 'userId'));
+    }
+    if (!codePattern.test(masterCode)) {
+      return Promise.reject(new ElkValidationError('The masterCode parameter must be 4 or 6 digits.', 'masterCode'));
+    }
+    if (!codePattern.test(newCode)) {
+      return Promise.reject(new ElkValidationError('The newCode parameter must be 4 or 6 digits.', 'newCode'));
+    }
+    if (!areas || areas.length === 0 || areas.some((area) => !(area >= 1 && area <= 8))) {
+      return Promise.reject(new ElkValidationError('The areas parameter must hold areas 1-8.', 'areas'));
+    }
+
+    // Areas are sent as a bit mask, area 1 is bit 0
+    const mask = areas.reduce((mask, area) => mask | 1 << (area - 1), 0);
+    const command = `cu${leftPad(userId.toString(), 3, '0')}${leftPad(masterCode, 6, '0')}`
+      + `${leftPad(newCode, 6, '0')}${leftPad(mask.toString(16).toUpperCase(), 2, '0')}`;
+
+    return this.request<UserCodeChangeReply>(command, { type: 'CU', description: 'Change User Code' }, options)
+      .then((reply) => {
+        if (reply.result === 'unauthorized') {
+          throw new ElkAuthError('The master code is not authorized to change user codes.', 'rejected');
+        }
+        if (reply.result === 'duplicate') {
+          throw new ElkValidationError('The new code is already in use.', 'newCode');
+        }
+        return reply;
       });
+  }
 
-      //Send the command
-      let elk = new ElkMessage('as', null);
-      this.connection.write(`${elk.message}\r\n`);
+  /**
+   * Requests the areas a user code can control. The code is masked in the reply.
+   * 
+   * @param {string} code - User code, 4 or 6 digits.
+   * @param {(number | RequestOptions)} [options] - Timeout in ms, or request options.
+   * @returns {Promise<UserCodeAreasReport>}
+   */
+  requestUserCodeAreas(code: string, options: number | RequestOptions = {}): Promise<UserCodeAreasReport> {
+    if (!/^\d{4}(\d{2})?$/.test(code)) {
+      return Promise.reject(new ElkValidationError('The code parameter must be 4 or 6 digits.', 'code'));
+    }
 
-      //Setup timeout
-      setTimeout(function () {
-        reject('Timout occured before Arming Status (as) was received.');
-      }, timeout);
-    });
+    return this.request(`ua${leftPad(code, 6, '0')}`, { type: 'UA', description: 'User Code Areas' }, options);
   }
 
-  
   /**
-   * Request Keypad Area assignments.
+   * Requests the firmware versions of the M1 and M1XEP.
    * 
-   * @param {number} [timeout=5000]
-   * @returns {Promise<number[]>}
+   * @param {(number | RequestOptions)} [options] - Timeout in ms, or request options.
+   * @returns {Promise<VersionReport>}
+   */
+  requestVersion(options: number | RequestOptions = {}): Promise<VersionReport> {
+    return this.request('vn', { type: 'VN', description: 'Version Number' }, options);
+  }
+
+  /**
+   * Acknowledges the last Alarm Report (AR). Only needed when alarmReports.autoAcknowledge is false.
    * 
-   * @memberOf Elk
+   * @returns {Promise<void>}
    */
-  requestAreas(timeout = 5000): Promise<number[]> {
-    return new Promise((resolve, reject) => {
-      //Listen for response
-      this.once('KA', (response) => {
-        resolve(response);
-      });
+  acknowledgeAlarmReport(): Promise<void> {
+    return this.send('ar', true);
+  }
 
-      //Send the command
-      let elk = new ElkMessage('ka', null);
-      this.connection.write(`${elk.message}\r\n`);
+  /**
+   * Requests a single entry from the panel's event log.
+   * 
+   * @param {number} index - Log index (1-511). 1 is the most recent entry.
+   * @param {(number | RequestOptions)} [options] - Timeout in ms, or request options.
+   * @returns {Promise<LogDataUpdate>}
+   */
+  requestLogEntry(index: number, options: number | RequestOptions = {}): Promise<LogDataUpdate> {
+    if (!(Number.isInteger(index) && index >= 1 && index <= 511)) {
+      return Promise.reject(new ElkValidationError('The index parameter is outside accepted range.', 'index'));
+    }
 
-      //Setup timeout
-      setTimeout(function () {
-        reject('Timout occured before Area request (ka) was received.');
-      }, timeout);
-    });
+    const logIndex = leftPad(index.toString(), 3, '0');
+
+    return this.request(`ld${logIndex}`, {
+      type: 'LD',
+      description: 'Log Data',
+      match: (reply: LogDataUpdate) => reply.logIndex === logIndex
+    }, options);
   }
 
   /**
-   * Requests a Zone Definition Report from the Elk panel.
+   * Downloads a range of the panel's event log, one entry at a time. Emits logProgress with
+   * { entry, received, total } as each entry arrives.
+   * If options.signal is aborted the promise rejects with an ElkAbortError, which holds the entries
+   * received so far in results.
    * 
-   * @param {number} [timeout=5000]
-   * @returns {ZoneDefinitionReport}
+   * @param {LogRange} [range] - Log indexes to download, defaults to the whole log.
+   * @param {(number | RequestOptions)} [options] - Timeout in ms, or request options, for each entry.
+   * @returns {Promise<LogDataUpdate[]>}
    */
-  requestZoneDefinitionReport(timeout = 5000): Promise<ZoneDefinitionReport> {
-    return new Promise((resolve, reject) => {
-      //Listen for response
-      this.once('ZD', (response) => {
-        resolve(response);
-      });
+  downloadLog(range: LogRange = {}, options: number | RequestOptions = {}): Promise<LogDataUpdate[]> {
+    const { from = 1, to = 511 } = range;
+
+    if (!(Number.isInteger(from) && from >= 1 && from <= 511)) {
+      return Promise.reject(new ElkValidationError('The from parameter is outside accepted range.', 'from'));
+    }
+    if (!(Number.isInteger(to) && to >= from && to <= 511)) {
+      return Promise.reject(new ElkValidationError('The to parameter is outside accepted range.', 'to'));
+    }
 
-      //Send the command
-      let elk = new ElkMessage('zd', null);
-      this.connection.write(`${elk.message}\r\n`);
+    const requestOptions = this.requestOptions(options);
+    const total = to - from + 1;
+    const entries: LogDataUpdate[] = [];
+
+    const next = (index: number): Promise<LogDataUpdate[]> => {
+      if (index > to) {
+        return Promise.resolve(entries);
+      }
+
+      return this.requestLogEntry(index, requestOptions).then((entry) => {
+        entries.push(entry);
+        this.emit('logProgress', { entry, received: entries.length, total });
+        return next(index + 1);
+      });
+    };
 
-      //Setup timeout
-      setTimeout(function () {
-        reject('Timout occured before Zone Definition (zd) was received.');
-      }, timeout);
+    return next(from).catch((err) => {
+      if (err instanceof ElkAbortError) {
+        throw new ElkAbortError(err.message, entries);
+      }
+      throw err;
     });
   }
 
-  
   /**
-   * Requests a Zone Partition Report from the Elk panel.
+   * Writes an entry to the panel's event log.
    * 
-   * @param {number} [timeout=5000]
-   * @returns {ZonePartitionReport}
+   * @param {number} eventCode - Event code (0-9999), see LogDataUpdate.
+   * @param {number} number - Event number data, i.e. zone or user number (0-999).
+   * @param {number} area - Area number (1-8).
+   * @returns {Promise<void>}
    */
-  requestZonePartitionReport(timeout = 5000): Promise<ZonePartitionReport> {
-    return new Promise((resolve, reject) => {
-      //Listen for response
-      this.once('ZP', (response) => {
-        resolve(response);
-      });
+  writeLogEntry(eventCode: number, number: number, area: number): Promise<void> {
+    if (!(Number.isInteger(eventCode) && eventCode >= 0 && eventCode <= 9999)) {
+      return Promise.reject(new ElkValidationError('The eventCode parameter is outside accepted range.', 'eventCode'));
+    }
+    if (!(Number.isInteger(number) && number >= 0 && number <= 999)) {
+      return Promise.reject(new ElkValidationError('The number parameter is outside accepted range.', 'number'));
+    }
+    if (!(area >= 1 && area <= 8)) {
+      return Promise.reject(new ElkValidationError('The area parameter is outside accepted range.', 'area'));
+    }
 
-      //Send the command
-      let elk = new ElkMessage('zp', null);
-      this.connection.write(`${elk.message}\r\n`);
+    return this.send(`le${leftPad(eventCode.toString(), 4, '0')}${leftPad(number.toString(), 3, '0')}${area}`);
+  }
 
-      //Setup timeout
-      setTimeout(function () {
-        reject('Timout occured before Zone Partition (zp) was received.');
-      }, timeout);
-    });
+  /**
+   * Requests the System Trouble Status.
+   * 
+   * @param {(number | RequestOptions)} [options] - Timeout in ms, or request options.
+   * @returns {Promise<SystemTroubleStatus>}
+   */
+  requestTroubleStatus(options: number | RequestOptions = {}): Promise<SystemTroubleStatus> {
+    return this.request('ss', { type: 'SS', description: 'System Trouble Status' }, options);
   }
 
-  
   /**
-   * Requests a Zone Status Report from the Elk panel.
+   * Requests the value of an automation counter.
    * 
-   * @param {number} [timeout=5000]
-   * @returns {ZoneStatusReport}
+   * @param {number} id - Counter number (1-64).
+   * @param {(number | RequestOptions)} [options] - Timeout in ms, or request options.
+   * @returns {Promise<CounterValue>}
    */
-  requestZoneStatusReport(timeout = 5000): Promise<ZoneStatusReport> {
-    return new Promise((resolve, reject) => {
-      //Listen for response
-      this.once('ZS', (response) => {
-        resolve(response);
-      });
+  requestCounter(id: number, options: number | RequestOptions = {}): Promise<CounterValue> {
+    if (!(Number.isInteger(id) && id >= 1 && id <= 64)) {
+      return Promise.reject(new ElkValidationError('The id parameter is outside accepted range.', 'id'));
+    }
 
-      //Send the command
-      let elk = new ElkMessage('zs', null);
-      this.connection.write(`${elk.message}\r\n`);
+    return this.request(`cv${leftPad(id.toString(), 2, '0')}`, {
+      type: 'CV',
+      description: 'Counter Value',
+      match: (reply: CounterValue) => reply.id === id
+    }, options);
+  }
 
-      //Setup timeout
-      setTimeout(function () {
-        reject('Timout occured before Zone Status Report (zs) was received.');
-      }, timeout);
-    });
+  /**
+   * Sets the value of an automation counter.
+   * 
+   * @param {number} id - Counter number (1-64).
+   * @param {number} value - New value (0-65535).
+   * @param {(number | RequestOptions)} [options] - Timeout in ms, or request options.
+   * @returns {Promise<CounterValue>} The value reported back by the panel.
+   */
+  setCounter(id: number, value: number, options: number | RequestOptions = {}): Promise<CounterValue> {
+    if (!(Number.isInteger(id) && id >= 1 && id <= 64)) {
+      return Promise.reject(new ElkValidationError('The id parameter is outside accepted range.', 'id'));
+    }
+    if (!(Number.isInteger(value) && value >= 0 && value <= 65535)) {
+      return Promise.reject(new ElkValidationError('The value parameter is outside accepted range.', 'value'));
+    }
+
+    return this.request(`cx${leftPad(id.toString(), 2, '0')}${leftPad(value.toString(), 5, '0')}`, {
+      type: 'CV',
+      description: 'Counter Value',
+      match: (reply: CounterValue) => reply.id === id
+    }, options);
   }
 
   /**
-   * Request zone voltage report
+   * Requests the value of every named counter. Counters without a text description
+   * are left out.
    * 
-   * @param {number} id
-   * @param {number} [timeout=5000]
-   * @returns {Promise<TextStringDescriptionReport>}
+   * @param {(number | RequestOptions)} [options] - Timeout in ms, or request options, for each request.
+   * @returns {Promise<Counter[]>}
+   */
+  getCounters(options: number | RequestOptions = {}): Promise<Counter[]> {
+    const counters: Counter[] = [];
+
+    return this.requestTextDescriptionAll(TextDescriptionType.Counter, options).then((descriptions) =>
+      descriptions.reduce((previous, description) => previous
+        .then(() => this.requestCounter(description.id, options))
+        .then((counter) => {
+          counters.push(new Counter(counter.id, description.description, counter.value));
+        }), Promise.resolve())
+    ).then(() => counters);
+  }
+
+  /**
+   * Requests the value of a custom setting, labelled with its name.
    * 
-   * @memberOf Elk
+   * @param {number} id - Custom setting number (1-20).
+   * @param {(number | RequestOptions)} [options] - Timeout in ms, or request options.
+   * @returns {Promise<CustomSetting>}
    */
-  requestZoneVoltageReport(id: number, timeout = 5000) {
-    return new Promise((resolve, reject) => {
-      //Listen for response
-      this.once('ZV', (response) => {
-        resolve(response);
-      });
+  requestCustomValue(id: number, options: number | RequestOptions = {}): Promise<CustomSetting> {
+    if (!(Number.isInteger(id) && id >= 1 && id <= 20)) {
+      return Promise.reject(new ElkValidationError('The id parameter is outside accepted range.', 'id'));
+    }
 
-      //Send the command
-      let elk = new ElkMessage(`zv${leftPad(id.toString(), 3, 0)}`, null);
-      this.connection.write(`${elk.message}\r\n`);
+    let setting: CustomSetting;
 
-      //Setup timeout
-      setTimeout(function () {
-        reject('Timout occured before Zone Voltage Report (zv) was received.');
-      }, timeout);
+    return this.request<CustomValueReport>(`cr${leftPad(id.toString(), 2, '0')}`, {
+      type: 'CR',
+      description: 'Custom Value',
+      match: (reply: CustomValueReport) => reply.settings.length === 1 && reply.settings[0].id === id
+    }, options).then((report) => {
+      setting = report.settings[0];
+      return this.requestTextDescription(id, TextDescriptionType.CustomSetting, options);
+    }).then((description) => {
+      // The panel skips to the next named setting if this one has no name
+      if (description.id === id) {
+        setting.name = description.description;
+      }
+      return setting;
     });
   }
-  
+
   /**
-   * Request text description
+   * Requests the values of all 20 custom settings, labelled with their names.
    * 
-   * @param {number} id
-   * @param {TextDescriptionType} type
-   * @param {number} [timeout=5000]
-   * @returns {Promise<TextStringDescriptionReport>}
+   * @param {(number | RequestOptions)} [options] - Timeout in ms, or request options, for each request.
+   * @returns {Promise<CustomSetting[]>}
+   */
+  requestAllCustomValues(options: number | RequestOptions = {}): Promise<CustomSetting[]> {
+    return this.requestTextDescriptionAll(TextDescriptionType.CustomSetting, options).then((descriptions) =>
+      this.request<CustomValueReport>('cp', {
+        type: 'CR',
+        description: 'Custom Values',
+        match: (reply: CustomValueReport) => reply.settings.length === 20
+      }, options).then((report) => report.settings.map((setting) => {
+        const description = descriptions.find((description) => description.id === setting.id);
+        if (description) {
+          setting.name = description.description;
+        }
+        return setting;
+      }))
+    );
+  }
+
+  /**
+   * Sets the value of a custom setting. Timers are given in seconds, times of day as
+   * { hour, minute }.
    * 
-   * @memberOf Elk
+   * @param {number} id - Custom setting number (1-20).
+   * @param {(number | TimeOfDay)} value - New value (0-65535), or a time of day.
+   * @returns {Promise<void>}
    */
-  requestTextDescription(id: number, type: TextDescriptionType, timeout = 5000): Promise<TextStringDescriptionReport> {
-    return new Promise((resolve, reject) => {
-      //Listen for response
-      this.once('SD', (response) => {
-        resolve(response);
-      });
+  setCustomValue(id: number, value: number | TimeOfDay): Promise<void> {
+    if (!(Number.isInteger(id) && id >= 1 && id <= 20)) {
+      return Promise.reject(new ElkValidationError('The id parameter is outside accepted range.', 'id'));
+    }
 
-      //Send the command
-      let elk = new ElkMessage(`sd${leftPad(type.toString(), 2, 0)}${leftPad(id.toString(), 3, 0)}`, null);
-      this.connection.write(`${elk.message}\r\n`);
+    if (typeof value === 'object') {
+      if (!(value.hour >= 0 && value.hour <= 23 && value.minute >= 0 && value.minute <= 59)) {
+        return Promise.reject(new ElkValidationError('The value parameter is not a valid time of day.', 'value'));
+      }
+      value = value.hour * 256 + value.minute;
+    } else if (!(Number.isInteger(value) && value >= 0 && value <= 65535)) {
+      return Promise.reject(new ElkValidationError('The value parameter is outside accepted range.', 'value'));
+    }
 
-      //Setup timeout
-      setTimeout(function () {
-        reject('Timout occured before Text Description (sd) was received.');
-      }, timeout);
-    });
+    return this.send(`cw${leftPad(id.toString(), 2, '0')}${leftPad(value.toString(), 5, '0')}`);
   }
 
-  
   /**
-   * For internal use by requestTextDescriptionAll. Asynchronous call to retreived
-   * a Text Description.
-   * @param {number} id
-   * @param {TextDescriptionType} type
-   * @param {any} cb
-   * @param {number} [timeout=15000]
+   * Requests the state of a thermostat.
+   * 
+   * @param {number} id - Thermostat number (1-16).
+   * @param {(number | RequestOptions)} [options] - Timeout in ms, or request options.
+   * @returns {Promise<ThermostatReply>}
    */
-  getDescription(id: number, type: TextDescriptionType, cb, timeout = 15000) {
-    //Listen for response
-    this.once('SD', (response) => {
-      cb(response);
-    });
-
-    //Send the command
-    let elk = new ElkMessage(`sd${leftPad(type.toString(), 2, 0)}${leftPad(id.toString(), 3, 0)}`, null);
-    this.connection.write(`${elk.message}\r\n`);
+  requestThermostat(id: number, options: number | RequestOptions = {}): Promise<ThermostatReply> {
+    if (!(Number.isInteger(id) && id >= 1 && id <= 16)) {
+      return Promise.reject(new ElkValidationError('The id parameter is outside accepted range.', 'id'));
+    }
 
-    //Setup timeout
-    setTimeout(function () {
-      cb({ error: 'Timout occured before Text Description (sd) was received.'});
-    }, timeout);
+    return this.request(`tr${leftPad(id.toString(), 2, '0')}`, {
+      type: 'TR',
+      description: 'Thermostat Data',
+      match: (reply: ThermostatReply) => +reply.id === id
+    }, options);
   }
 
-  
   /**
-   * Method returns the configured Text Descriptions, by type. We start at id=1.
-   * If the requested id is not configured, Elk will return the next configured item (to speed up requests)
-   * or 000 if no more valid names are found. Consult RS232 protocol guide for more info on SD messages.
-   * So we'll recursively query the panel until we reach the max length, by type, or receive 000.
-   * NOTE: This can be used to determine what has been configured on panel since a description is not returned
-   * for unconfigured items. Useful for Tasks, Outputs, etc that don't have an Api call for retreving
-   * configuration/definition.
-   * @param {string} type
-   * @param {number} [timeout=15000]
-   * @returns {TextStringDescriptionReport}
+   * Gets the controller for a thermostat. The same instance is returned for every call.
+   * 
+   * @param {number} id - Thermostat number (1-16).
+   * @returns {Thermostat}
    */
-  requestTextDescriptionAll(type: TextDescriptionType, timeout = 15000): Promise<TextStringDescriptionReport[]> {
-    // Text Description items received from panel
-    const items = [];
-
-    const recursiveCall = (id, resolve, reject) => {
-      this.getDescription(id, type, (data) => {
-        if(data.error) {
-          reject(data.error);
-        }
+  thermostat(id: number): Thermostat {
+    if (!(Number.isInteger(id) && id >= 1 && id <= 16)) {
+      throw new ElkValidationError('The id parameter is outside accepted range.', 'id');
+    }
 
-        // If the returned id == 0, then no more configured items.
-        if(data.id > 0 && id < textDescriptionMaxRange[TextDescriptionType[type]]) {
-          //panel returned a text description
-          items.push(data);
-          // Since panel returns the 'next' configured item, we need set the id to 
-          // the last retreived one.
-          id = data.id;
-          id++; // Increment to next item
-          recursiveCall(id, resolve, reject);
-        } else {
-          // Return items to caller
-          resolve(items);
-        }
-      }, timeout);
+    if (!this.thermostatControllers.has(id)) {
+      this.thermostatControllers.set(id, new Thermostat(id, this, this.thermostats.get(id)));
     }
 
-    // Promise is resolved when all items have been received.
-    return new Promise((resolve, reject) => {
-      recursiveCall(1, resolve, reject);
-    });
+    return this.thermostatControllers.get(id);
   }
 
   /**
    * Set thermostat data.
    * 
    * @param {number} thermostatId - The thermostat number to program (1-16).
-   * @param {number} value - The value to set (00-99).
-   * @param {number} element - The element to set.
+   * @param {number} value - The value to set, a whole number (00-99).
+   * @param {number} element - The element to set: 0 = mode, 1 = hold, 2 = fan, 4 = cool set point,
+   * 5 = heat set point. See thermostat(id) for named setters.
+   * @returns {Promise<void>} Rejects with an ElkValidationError if an argument is out of range.
    */
-  setThermostat(thermostatId: number, value: number, element: number) {
-    const message = 'The value parameter is outside accepted range.';
+  setThermostat(thermostatId: number, value: number, element: number): Promise<void> {
+    const invalid = (argument: string) =>
+      Promise.reject(new ElkValidationError(`The ${argument} parameter is outside accepted range.`, argument));
+
     // Do some validation
-    if (element < 0 || element > 5)
-      throw new Error(message.replace('value', 'element'));
+    if (!(Number.isInteger(thermostatId) && thermostatId >= 1 && thermostatId <= 16))
+      return invalid('thermostatId');
+    // Element 3 isn't settable
+    if (!Number.isInteger(element) || element < 0 || element > 5 || element === 3)
+      return invalid('element');
+    if (!Number.isInteger(value))
+      return invalid('value');
 
     switch(element) {
       case 0:
         if (value < 0 || value > 4)
-          throw new Error(message);
+          return invalid('value');
         break;
       case 1:
         if (value < 0 || value > 1)
-          throw new Error(message);
+          return invalid('value');
         break;
       case 2:
         if (value < 0 || value > 1)
-          throw new Error(message);
+          return invalid('value');
         break;
       case 4:
         if (value < 1 || value > 99)
-          throw new Error(message);
+          return invalid('value');
         break;
       case 5:
         if (value < 1 || value > 99)
-          throw new Error(message);
+          return invalid('value');
         break;
       default:
     }
   
-    let elk = new ElkMessage(`ts${leftPad(thermostatId.toString(), 2, '0')}${leftPad(value.toString(), 2, '0')}${element.toString()}`, null);
-    this.connection.write(`${elk.message}\r\n`);
+    return this.send(`ts${leftPad(thermostatId.toString(), 2, '0')}${leftPad(value.toString(), 2, '0')}${element.toString()}`);
+  }
+
+  /**
+   * Requests the temperature of a single sensor, labelled with its name.
+   * 
+   * @param {TemperatureGroup} group - Sensor group: 0 = zone, 1 = keypad, 2 = thermostat.
+   * @param {number} id - Sensor number (1-16).
+   * @param {(number | RequestOptions)} [options] - Timeout in ms, or request options.
+   * @returns {Promise<TemperatureReading>}
+   */
+  requestTemperature(group: TemperatureGroup, id: number, options: number | RequestOptions = {}): Promise<TemperatureReading> {
+    if (!(Number.isInteger(group) && group >= 0 && group <= 2)) {
+      return Promise.reject(new ElkValidationError('The group parameter is outside accepted range.', 'group'));
+    }
+    if (!(Number.isInteger(id) && id >= 1 && id <= 16)) {
+      return Promise.reject(new ElkValidationError('The id parameter is outside accepted range.', 'id'));
+    }
+
+    return this.request<TemperatureData>(`st${group}${leftPad(id.toString(), 2, '0')}`, {
+      type: 'ST',
+      description: 'Temperature Data',
+      match: (reply: TemperatureData) => reply.group === TemperatureGroup[group] && reply.id === id
+    }, options).then((data) => this.sensorName(group, id, options)
+      .then((name) => new TemperatureReading(data.group, data.id, data.temperature, name)));
+  }
+
+  /**
+   * Requests the temperatures of all keypads, zone sensors and thermostats, labelled with their
+   * names. Keypads and zone sensors that aren't fitted are left out, and thermostats are only read
+   * if they have a text description.
+   * 
+   * @param {(number | RequestOptions)} [options] - Timeout in ms, or request options, for each request.
+   * @returns {Promise<TemperatureReading[]>}
+   */
+  requestAllTemperatures(options: number | RequestOptions = {}): Promise<TemperatureReading[]> {
+    return this.requestSensorTemperatures(options).then((readings) =>
+      this.requestTextDescriptionAll(TextDescriptionType.Thermostat, options).then((descriptions) =>
+        descriptions.reduce((previous, description) => previous.then((results) => {
+          this.sensorNames.set(`${TemperatureGroup.Thermostat}:${description.id}`, description.description);
+          return this.requestTemperature(TemperatureGroup.Thermostat, description.id, options)
+            .then((reading) => [...results, reading]);
+        }), Promise.resolve(readings))
+      )
+    );
+  }
+
+  /**
+   * Requests the temperatures of all fitted keypads and zone sensors (lw), labelled with their names.
+   */
+  private requestSensorTemperatures(options: number | RequestOptions): Promise<TemperatureReading[]> {
+    return this.request<TemperatureReply>('lw', {
+      type: 'LW',
+      description: 'Temperature Data'
+    }, options).then((reply) => {
+      // A missing sensor reads 0, before the offset is taken off
+      const readings = [
+        ...reply.keypads.map((temperature, i) => ({ group: TemperatureGroup.Keypad, id: i + 1, temperature, missing: -40 })),
+        ...reply.zones.map((temperature, i) => ({ group: TemperatureGroup.Zone, id: i + 1, temperature, missing: -60 }))
+      ].filter((reading) => reading.temperature !== reading.missing);
+
+      return readings.reduce((previous, reading) => previous.then((results) =>
+        this.sensorName(reading.group, reading.id, options).then((name) =>
+          [...results, new TemperatureReading(TemperatureGroup[reading.group], reading.id, reading.temperature, name)])
+      ), Promise.resolve([] as TemperatureReading[]));
+    });
+  }
+
+  /**
+   * Looks up the name of a temperature sensor from its text description. Names are only
+   * requested once.
+   */
+  private sensorName(group: TemperatureGroup, id: number, options: number | RequestOptions): Promise<string> {
+    const key = `${group}:${id}`;
+    const type = [TextDescriptionType.Zone, TextDescriptionType.Keypad, TextDescriptionType.Thermostat][group];
+
+    if (this.sensorNames.has(key)) {
+      return Promise.resolve(this.sensorNames.get(key));
+    }
+
+    return this.requestTextDescription(id, type, options).then((description) => {
+      // The panel skips to the next named item if this one has no name
+      const name = description.id === id ? description.description : null;
+      this.sensorNames.set(key, name);
+      return name;
+    });
   }
 
   /**
    * Disconnects from the Elk M1XEP.
    */
   disconnect() {
+    this.disconnecting = true;
+    this.clearReconnectTimer();
+
     if (this.connection) {
       this.connection.destroy();
+    } else {
+      this.setState(ConnectionState.Disconnected);
     }
   }
 
 }
 
+namespace Elk {
+  export import ElkError = errors.ElkError;
+  export import ElkAuthError = errors.ElkAuthError;
+  export import ElkConnectionError = errors.ElkConnectionError;
+  export import ElkAbortError = errors.ElkAbortError;
+  export import ElkTimeoutError = errors.ElkTimeoutError;
+  export import ElkChecksumError = errors.ElkChecksumError;
+  export import ElkValidationError = errors.ElkValidationError;
+  export import ElkCapabilityError = errors.ElkCapabilityError;
+  export import ConnectionState = enums.ConnectionState;
+  export import TemperatureGroup = enums.TemperatureGroup;
+  export import TcpTransport = transports.TcpTransport;
+  export import TlsTransport = transports.TlsTransport;
+  export import SerialTransport = transports.SerialTransport;
+  export import MemoryTransport = transports.MemoryTransport;
+  export import VirtualKeypad = keypad.VirtualKeypad;
+  export import Thermostat = thermostat.Thermostat;
+}
+
 export = Elk;
@@ -0,0 +1,118 @@
+import { EventEmitter } from 'events';
+import { AlarmByZoneReport } from './messages';
+
+/**
+ * A zone that caused an alarm.
+ * 
+ * @export
+ * @interface TrippedZone
+ */
+export interface TrippedZone {
+  zoneId: number;
+  /**
+   * Area the zone belongs to, or null if the zone partitions weren't known.
+   */
+  areaId: number;
+  /**
+   * Zone definition that caused the alarm, i.e. 'Burglar Entry/Exit 1'.
+   */
+  alarm: string;
+  /**
+   * When the zone was first seen in alarm.
+   */
+  time: Date;
+}
+
+// Longest M1 entry delay. A violation older than this can't have caused the alarm being reported
+const violationWindow = 255000;
+
+/**
+ * Records the zones that tripped an alarm, in the order they tripped, until their area is
+ * disarmed.
+ * A zone's trip time is when it was last violated, if that was reported, or else when it was first
+ * seen in alarm.
+ * 
+ * @export
+ * @class AlarmMemory
+ * @extends {EventEmitter}
+ */
+export class AlarmMemory extends EventEmitter {
+
+  private tripped: TrippedZone[] = [];
+  private violations: Map<number, Date> = new Map();
+
+  /**
+   * Tripped zones, first tripped first.
+   * 
+   * @readonly
+   * @type {TrippedZone[]}
+   */
+  get zones(): TrippedZone[] {
+    return this.tripped.slice();
+  }
+
+  /**
+   * Notes when a zone was violated, i.e. from a Zone Change Update (ZC), so zones reported
+   * together in one Alarm By Zone Reply are ordered by when they tripped.
+   * 
+   * @param {number} zoneId
+   * @param {Date} [time]
+   */
+  violated(zoneId: number, time: Date = new Date()) {
+    this.violations.set(zoneId, time);
+  }
+
+  /**
+   * Records the zones in an Alarm By Zone Reply (AZ). Zones already in memory keep the time
+   * they tripped.
+   * 
+   * @param {AlarmByZoneReport} report
+   * @param {number[]} [partitions] - Area of each zone, by zone id - 1.
+   */
+  record(report: AlarmByZoneReport, partitions?: number[]) {
+    const now = new Date();
+
+    const added: TrippedZone[] = report.zones
+      .filter((zone) => !this.tripped.some((tripped) => tripped.zoneId === zone.id))
+      .map((zone) => {
+        const violation = this.violations.get(zone.id);
+        const recent = violation && now.getTime() - violation.getTime() <= violationWindow;
+
+        this.violations.delete(zone.id);
+        return {
+          zoneId: zone.id,
+          areaId: partitions ? partitions[zone.id - 1] : null,
+          alarm: zone.definition,
+          time: recent ? violation : now
+        };
+      })
+      .sort((a, b) => a.time.getTime() - b.time.getTime());
+
+    this.tripped = this.tripped.concat(added).sort((a, b) => a.time.getTime() - b.time.getTime());
+    added.forEach((tripped) => this.emit('zoneTripped', tripped));
+  }
+
+  /**
+   * Gets the first zone that tripped, optionally in one area.
+   * 
+   * @param {number} [areaId]
+   * @returns {TrippedZone} Undefined if no zone has tripped.
+   */
+  firstTripped(areaId?: number): TrippedZone {
+    return this.tripped.find((tripped) => areaId === undefined || tripped.areaId === areaId);
+  }
+
+  /**
+   * Forgets the zones of an area, i.e. when it's disarmed, or every zone if no area is given.
+   * 
+   * @param {number} [areaId]
+   */
+  clear(areaId?: number) {
+    const remaining = this.tripped.filter((tripped) => areaId !== undefined && tripped.areaId !== areaId);
+
+    if (remaining.length !== this.tripped.length) {
+      this.tripped = remaining;
+      this.emit('cleared', areaId);
+    }
+  }
+}
@@ -10,7 +10,7 @@ const commands = new Map(
     ['a7', 'Arm step to next Away Mode'],
     ['a8', 'Arm step to next Stay Mode'],
     ['ar', 'Alarm Reporting Acknowledge'],
-    // ['AR', 'Alarm Reporting to Ethernet'],
+    ['AR', 'Alarm Reporting to Ethernet'],
     ['as', 'Request arming status'],
     ['AS', 'Arming status report data'],
     ['at', 'Ethernet Test Acknowledge'],
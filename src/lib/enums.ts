@@ -553,4 +553,18 @@ export enum Words {
   you = 470,
   zone = 471,
   zones = 472
-}
\ No newline at end of file
+}
+
+export enum ConnectionState {
+  Disconnected = 0,
+  Connecting,
+  Authenticating,
+  Ready,
+  BackingOff
+}
+
+export enum TemperatureGroup {
+  Zone = 0,
+  Keypad,
+  Thermostat
+}
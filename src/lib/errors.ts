@@ -0,0 +1,126 @@
+/**
+ * Base type for all errors raised by elkmon.
+ * 
+ * @export
+ * @class ElkError
+ * @extends {Error}
+ */
+export class ElkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Raised when the M1XEP login fails, either because the credentials were rejected or
+ * because the login did not complete in time.
+ * 
+ * @export
+ * @class ElkAuthError
+ * @extends {ElkError}
+ */
+export class ElkAuthError extends ElkError {
+  constructor(
+    message: string,
+    public reason: 'rejected' | 'timeout'
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Raised when the connection to the Elk M1 fails or is lost.
+ * 
+ * @export
+ * @class ElkConnectionError
+ * @extends {ElkError}
+ */
+export class ElkConnectionError extends ElkError {
+  constructor(
+    message: string,
+    public errno?: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Raised when a request is cancelled with an AbortSignal. Long running requests, i.e.
+ * requestTextDescriptionAll, hand back what was collected before the abort in results.
+ * 
+ * @export
+ * @class ElkAbortError
+ * @extends {ElkError}
+ */
+export class ElkAbortError extends ElkError {
+  constructor(
+    message: string = 'The request was aborted.',
+    public results?: any[]
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Raised when the panel doesn't reply to a request in time.
+ * 
+ * @export
+ * @class ElkTimeoutError
+ * @extends {ElkError}
+ */
+export class ElkTimeoutError extends ElkError {
+  constructor(
+    public command: string,
+    public expectedType: string,
+    description: string = expectedType
+  ) {
+    super(`Timeout occurred before ${description} (${command}) was received.`);
+  }
+}
+
+/**
+ * Raised when the checksum of a received frame doesn't match its contents.
+ * 
+ * @export
+ * @class ElkChecksumError
+ * @extends {ElkError}
+ */
+export class ElkChecksumError extends ElkError {
+  constructor(public frame: string) {
+    super(`The calculated checksum does not match the checksum on the received message: ${frame}`);
+  }
+}
+
+/**
+ * Raised when a command is given an argument the panel won't accept.
+ * 
+ * @export
+ * @class ElkValidationError
+ * @extends {ElkError}
+ */
+export class ElkValidationError extends ElkError {
+  constructor(
+    message: string,
+    public argument: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Raised when a command isn't supported by the firmware of the connected panel.
+ * 
+ * @export
+ * @class ElkCapabilityError
+ * @extends {ElkError}
+ */
+export class ElkCapabilityError extends ElkError {
+  constructor(
+    public command: string,
+    public requiredVersion: string,
+    public version: string
+  ) {
+    super(`The ${command} command needs M1 firmware ${requiredVersion} or newer, the panel has ${version}.`);
+  }
+}
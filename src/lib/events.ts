@@ -0,0 +1,113 @@
+import { EventType } from './types';
+
+/**
+ * The zone, output, user or area an event is about.
+ * 
+ * @export
+ * @interface EventSubject
+ */
+export interface EventSubject {
+  kind: 'zone' | 'output' | 'user' | 'area';
+  id: number;
+}
+
+/**
+ * An event log code, decoded.
+ * 
+ * @export
+ * @interface DecodedEvent
+ */
+export interface DecodedEvent {
+  /**
+   * 'system' (1000-1386), 'task' (2001-2032), 'functionKey' (3001-3096), 'zone' (4001-4208),
+   * 'bypass' (5001-5208), 'alarm' (6001-6208), 'output' (7001-7208) or 'unknown'.
+   */
+  category: string;
+  code: number;
+  /**
+   * Null when the event isn't about a single zone, output, user or area.
+   */
+  subject: EventSubject;
+  /**
+   * i.e. 'violated', 'bypassed', 'on', 'armed' or 'restored'. Null when the event has no state,
+   * or it's carried in the event data and that wasn't given.
+   */
+  state: string;
+  label: string;
+}
+
+// Events 4001-7208 are numbered by zone or output, and carry the new state in the event data
+const numberedEvents = [
+  { base: 4000, category: 'zone', kind: 'zone', name: 'Zone', states: ['normal', 'violated'] },
+  { base: 5000, category: 'bypass', kind: 'zone', name: 'Zone', states: ['unbypassed', 'bypassed'] },
+  { base: 6000, category: 'alarm', kind: 'zone', name: 'Zone', states: ['normal', 'alarm'] },
+  { base: 7000, category: 'output', kind: 'output', name: 'Output', states: ['off', 'on'] }
+];
+
+/**
+ * Decodes an event log code.
+ * 
+ * @export
+ * @param {number} code - Event code, see LogDataUpdate.
+ * @param {number} [data] - Event number data, i.e. the user number for arming events, or 1/0 for
+ * zone and output events.
+ * @returns {DecodedEvent}
+ */
+export function decodeEvent(code: number, data?: number): DecodedEvent {
+  const numbered = numberedEvents.find((event) => code > event.base && code <= event.base + 208);
+
+  if (numbered) {
+    const id = code - numbered.base;
+    const state = data === undefined ? null : numbered.states[data === 1 ? 1 : 0];
+
+    return {
+      category: numbered.category,
+      code,
+      subject: { kind: numbered.kind as EventSubject['kind'], id },
+      state,
+      label: `${numbered.name} ${id} ${state || 'status'}`
+    };
+  }
+
+  const label = EventType.get(code.toString());
+
+  if (!label) {
+    return { category: 'unknown', code, subject: null, state: null, label: `Unknown event ${code}` };
+  }
+
+  if (code >= 2001 && code <= 2032) {
+    return { category: 'task', code, subject: null, state: null, label };
+  }
+
+  if (code >= 3001 && code <= 3096) {
+    return { category: 'functionKey', code, subject: null, state: null, label };
+  }
+
+  return { category: 'system', code, subject: systemSubject(code, label, data), state: systemState(code), label };
+}
+
+function isArming(code: number): boolean {
+  return code === 1173 || code === 1174 || (code >= 1183 && code <= 1238);
+}
+
+function systemSubject(code: number, label: string, data: number): EventSubject {
+  // Arming and disarming events are logged with the user who did it
+  if (isArming(code) && data > 0) {
+    return { kind: 'user', id: data };
+  }
+
+  const area = /AREA (\d)/.exec(label);
+  return area ? { kind: 'area', id: +area[1] } : null;
+}
+
+function systemState(code: number): string {
+  if (code === 1174) {
+    return 'disarmed';
+  } else if (isArming(code)) {
+    return 'armed';
+  } else if ((code >= 1144 && code <= 1163) || code >= 1384) {
+    return 'restored';
+  }
+
+  return null;
+}
@@ -1,5 +1,6 @@
 import * as messages from './messages';
-import { responseTypes } from './types';
+import { FirmwareVersion } from './models';
+import { responseTypes, responseVariants } from './types';
 
 
 /**
@@ -7,11 +8,22 @@ import { responseTypes } from './types';
  * 
  * @export
  * @param {string} message
+ * @param {FirmwareVersion} [version] - M1 firmware version, used to pick the parser for replies
+ * whose format changed between versions. The current format is assumed if not known.
  * @returns
  */
-export default function getElkResponse(response: string) {
+export default function getElkResponse(response: string, version?: FirmwareVersion) {
   const type = response.substring(2, 4);
-  const messageType = responseTypes.get(type);
+  let messageType = responseTypes.get(type);
+
+  if (version && responseVariants.has(type)) {
+    const variant = responseVariants.get(type)
+      .find((variant) => !version.atLeast(FirmwareVersion.parse(variant.maxVersion)));
+
+    if (variant) {
+      messageType = variant.parser;
+    }
+  }
 
   if (messages[messageType]) {
     // Create message instance based on the type of message received.
@@ -0,0 +1,93 @@
+import { EventEmitter } from 'events';
+
+/**
+ * Checks that a frame's two hex digit length prefix matches the length of the frame.
+ * The length counts every character after the prefix, up to and including the checksum.
+ * 
+ * @export
+ * @param {string} frame - Frame without the trailing CR/LF, i.e. '0AZC002200CE'.
+ * @returns {boolean}
+ */
+export function isCompleteFrame(frame: string): boolean {
+  if (!/^[0-9A-F]{2}[A-Za-z]{2}/.test(frame)) {
+    return false;
+  }
+
+  return parseInt(frame.substring(0, 2), 16) + 2 === frame.length;
+}
+
+/**
+ * Reassembles frames from a stream of data chunks. A chunk may hold part of a frame,
+ * several frames, or junk (i.e. line noise). Partial lines are kept until the rest arrives.
+ * 
+ * Emits 'frame' for every complete frame and 'frameError' with the raw data that
+ * could not be framed.
+ * @export
+ * @class ElkFramer
+ * @extends {EventEmitter}
+ */
+export class ElkFramer extends EventEmitter {
+
+  private buffer: string = '';
+
+  /**
+   * Creates an instance of ElkFramer.
+   * 
+   * @param {number} [maxLength=512] - Max number of characters buffered without a line ending.
+   */
+  constructor(public maxLength: number = 512) {
+    super();
+  }
+
+  /**
+   * Add a chunk of received data.
+   * 
+   * @param {string} data
+   */
+  push(data: string) {
+    this.buffer += data;
+
+    let index: number;
+    while ((index = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.substring(0, index).replace(/\r/g, '');
+      this.buffer = this.buffer.substring(index + 1);
+      this.processLine(line);
+    }
+
+    // A frame is never this long, so the line ending was lost. Drop it and start over.
+    if (this.buffer.length > this.maxLength) {
+      const raw = this.buffer;
+      this.buffer = '';
+      this.emit('frameError', raw);
+    }
+  }
+
+  /**
+   * Discards any buffered partial line, i.e. when a new connection is opened.
+   */
+  reset() {
+    this.buffer = '';
+  }
+
+  private processLine(line: string) {
+    if (line.trim() === '') {
+      return;
+    }
+
+    if (isCompleteFrame(line)) {
+      this.emit('frame', line);
+      return;
+    }
+
+    // Resync: junk may precede a valid frame on the same line.
+    for (let i = 1; i < line.length - 5; i++) {
+      if (isCompleteFrame(line.substring(i))) {
+        this.emit('frameError', line.substring(0, i));
+        this.emit('frame', line.substring(i));
+        return;
+      }
+    }
+
+    this.emit('frameError', line);
+  }
+}
@@ -1,10 +1,224 @@
+import { SecureVersion } from 'tls';
+import { Transport } from './transports';
+
 export interface ConnectOptions {
   secure?: boolean,
   userName?: string,
   password?: string,
   keypadCode?: string,
+  /**
+   * Time, in ms, allowed for the M1XEP login to complete. Defaults to 15000.
+   */
+  authTimeout?: number;
+  /**
+   * Reject certificates that can't be verified. Defaults to true when a ca is given, otherwise
+   * false, since the M1XEP ships with a self-signed certificate.
+   */
   rejectUnauthorized?: boolean;
+  /**
+   * Legacy OpenSSL method name, i.e. 'TLSv1_method'. Prefer minVersion/maxVersion.
+   */
   secureProtocol?: string;
+  /**
+   * Lowest TLS version to allow, i.e. 'TLSv1' for older M1XEP firmware.
+   */
+  minVersion?: SecureVersion;
+  maxVersion?: SecureVersion;
+  /**
+   * CA certificate(s), in PEM format, used to verify the M1XEP certificate.
+   */
+  ca?: string | Buffer | Array<string | Buffer>;
+  /**
+   * Expected SHA-256 (or SHA-1) fingerprint of the M1XEP certificate, i.e. 'AB:CD:...'.
+   * The connection is closed if the certificate doesn't match.
+   */
+  fingerprint?: string;
+  /**
+   * Client certificate and key, in PEM format.
+   */
+  cert?: string | Buffer;
+  key?: string | Buffer;
+  /**
+   * OpenSSL cipher list, i.e. 'DEFAULT@SECLEVEL=0' to allow the ciphers older M1XEP firmware uses.
+   */
+  ciphers?: string;
+  /**
+   * Automatically reconnect when the connection is lost. Defaults to true.
+   */
+  reconnect?: boolean;
+  backoff?: BackoffOptions;
+  keepalive?: KeepaliveOptions;
+  /**
+   * Keep the panel clock in step with the host clock. Disabled unless given.
+   */
+  clockSync?: ClockSyncOptions;
+  /**
+   * How Alarm Reports (AR) from the M1XEP are acknowledged and de-duplicated.
+   */
+  alarmReports?: AlarmReportOptions;
+  /**
+   * Request the firmware versions (vn) once the connection is ready, so commands the panel
+   * doesn't support are refused. Defaults to false.
+   */
+  detectVersion?: boolean;
+  /**
+   * Poll temperature sensors and emit temperatureAlert when they pass a threshold. Disabled unless given.
+   */
+  temperatureAlerts?: TemperatureAlertOptions;
+  /**
+   * Minimum gap, in ms, between frames sent to the panel. Defaults to 100.
+   */
+  commandInterval?: number;
+  /**
+   * Transport used to reach the panel, i.e. a SerialTransport. Defaults to TCP, or TLS when secure is set.
+   */
+  transport?: Transport;
+}
+
+/**
+ * Controls the delay between reconnect attempts.
+ */
+export interface BackoffOptions {
+  /**
+   * Delay, in ms, before the first reconnect attempt. Defaults to 1000.
+   */
+  initialDelay?: number;
+  /**
+   * Factor applied to the delay after each failed attempt. Defaults to 2.
+   */
+  multiplier?: number;
+  /**
+   * Upper bound, in ms, for the delay. Defaults to 60000.
+   */
+  maxDelay?: number;
+  /**
+   * Random spread applied to each delay, as a fraction (0-1) of the delay. Defaults to 0.2.
+   */
+  jitter?: number;
+  /**
+   * Number of attempts before giving up. 0 means never give up. Defaults to 0.
+   */
+  maxAttempts?: number;
+}
+
+/**
+ * Controls dead-link detection.
+ */
+export interface KeepaliveOptions {
+  /**
+   * If no frame is received for this many ms the link is declared dead and the connection is rebuilt.
+   * The M1 sends an Ethernet Test (XK) every 30 seconds. 0 disables detection. Defaults to 90000.
+   */
+  timeout?: number;
+  /**
+   * Reply to Ethernet Tests (XK) with xk. Only needed when standing in for an M1XEP, i.e. on the
+   * serial port. Defaults to false.
+   */
+  answerEthernetTest?: boolean;
+}
+
+/**
+ * Controls panel clock synchronisation.
+ */
+export interface ClockSyncOptions {
+  /**
+   * Time, in ms, between drift checks. The first check is made once the connection is ready.
+   * Defaults to 3600000 (1 hour).
+   */
+  interval?: number;
+  /**
+   * Drift, in ms, at which the panel clock is rewritten. Defaults to 60000.
+   */
+  threshold?: number;
+}
+
+/**
+ * Controls Alarm Report (AR) handling.
+ */
+export interface AlarmReportOptions {
+  /**
+   * Acknowledge each report as soon as it's received. When false, call acknowledgeAlarmReport
+   * once the report has been handled, and the panel resends it until then. Defaults to true.
+   */
+  autoAcknowledge?: boolean;
+  /**
+   * Time, in ms, during which a repeat of the same report isn't emitted again. Defaults to 60000.
+   */
+  dedupWindow?: number;
+}
+
+/**
+ * Controls temperature polling and alerts.
+ */
+export interface TemperatureAlertOptions {
+  /**
+   * Time, in ms, between polls. The first poll is made once the connection is ready. Defaults to 300000 (5 minutes).
+   */
+  interval?: number;
+  sensors: TemperatureThreshold[];
+}
+
+/**
+ * Alert thresholds for one temperature sensor.
+ */
+export interface TemperatureThreshold {
+  /**
+   * Sensor group, see TemperatureGroup.
+   */
+  group: number;
+  /**
+   * Sensor number (1-16).
+   */
+  id: number;
+  /**
+   * Alert when the temperature reaches this, or higher.
+   */
+  high?: number;
+  /**
+   * Alert when the temperature reaches this, or lower.
+   */
+  low?: number;
+  /**
+   * Degrees the temperature must move back past a threshold before the alert clears. Defaults to 1.
+   */
+  hysteresis?: number;
+}
+
+/**
+ * Options accepted by every request* method.
+ */
+export interface RequestOptions {
+  /**
+   * Time, in ms, to wait for each reply. Defaults to 5000.
+   */
+  timeout?: number;
+  /**
+   * Cancels the request. The promise rejects with an ElkAbortError.
+   */
+  signal?: AbortSignal;
+  /**
+   * Number of times to resend the request when the reply times out, i.e. while the panel is busy.
+   * Defaults to 0.
+   */
+  retries?: number;
+  /**
+   * Delay between retries. Defaults to 250ms, doubling each retry.
+   */
+  retryBackoff?: BackoffOptions;
+}
+
+/**
+ * Range of log entries to download.
+ */
+export interface LogRange {
+  /**
+   * First log index. Defaults to 1, the most recent entry.
+   */
+  from?: number;
+  /**
+   * Last log index. Defaults to 511, the oldest entry.
+   */
+  to?: number;
 }
 
 // export interface CommandOptions {
@@ -12,4 +226,3 @@ export interface ConnectOptions {
 //   areaId: number,
 //   zoneId?: number
 // }
-
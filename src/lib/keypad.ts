@@ -0,0 +1,82 @@
+import { EventEmitter } from 'events';
+import { ElkValidationError } from './errors';
+import { RequestOptions } from './interfaces';
+import { KeypadFunctionKeypress, KeypadKeyChangeUpdate } from './messages';
+import { KeypadStatus } from './models';
+import { Requester } from './requests';
+import { leftPad } from './utils';
+
+/**
+ * A keypad driven through the Elk M1, i.e. from a wall tablet. Function keys can be pressed
+ * and the keypad's F-key illumination is mirrored as updates arrive.
+ * 
+ * @export
+ * @class VirtualKeypad
+ * @extends {EventEmitter}
+ */
+export class VirtualKeypad extends EventEmitter {
+
+  constructor(
+    public id: number,
+    private request: Requester,
+    public status: KeypadStatus = null
+  ) {
+    super();
+  }
+
+  /**
+   * Simulates pressing a function key on the keypad.
+   * 
+   * @param {number} key - Function key 1-6 (F1-F6).
+   * @param {(number | RequestOptions)} [options] - Timeout in ms, or request options.
+   * @returns {Promise<KeypadFunctionKeypress>}
+   */
+  pressFunctionKey(key: number, options: number | RequestOptions = {}): Promise<KeypadFunctionKeypress> {
+    if (!(key >= 1 && key <= 6)) {
+      return Promise.reject(new ElkValidationError('The key parameter is outside accepted range.', 'key'));
+    }
+
+    return this.request(`kf${this.keypadNumber()}${key}`, {
+      type: 'KF',
+      description: 'Function Key Pressed',
+      match: (reply: KeypadFunctionKeypress) => reply.keypadId === this.id
+    }, options);
+  }
+
+  /**
+   * Requests the F-key illumination status. The keypad status is updated from the reply.
+   * 
+   * @param {(number | RequestOptions)} [options] - Timeout in ms, or request options.
+   * @returns {Promise<KeypadKeyChangeUpdate>}
+   */
+  requestIllumination(options: number | RequestOptions = {}): Promise<KeypadKeyChangeUpdate> {
+    return this.request(`kc${this.keypadNumber()}`, {
+      type: 'KC',
+      description: 'Keypad Key Change',
+      match: (reply: KeypadKeyChangeUpdate) => reply.keypadId === this.id
+    }, options);
+  }
+
+  /**
+   * Handles a Function Key Pressed reply (KF) addressed to this keypad.
+   * 
+   * @param {KeypadFunctionKeypress} message
+   */
+  handle(message: KeypadFunctionKeypress) {
+    this.emit('functionKey', message.functionKey);
+  }
+
+  /**
+   * Updates the keypad status, from Keypad Key Change Updates (KC).
+   * 
+   * @param {KeypadStatus} status
+   */
+  update(status: KeypadStatus) {
+    this.status = status;
+    this.emit('change', status);
+  }
+
+  private keypadNumber(): string {
+    return leftPad(this.id.toString(), 2, '0');
+  }
+}
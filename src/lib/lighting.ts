@@ -0,0 +1,50 @@
+import { EventEmitter } from 'events';
+
+/**
+ * Last known level of each light, kept up to date from lighting messages (PC, PS and DS).
+ * Levels are 0 = Off, 1 = On and 2-99 = dimmed level.
+ * 
+ * @export
+ * @class LightingCache
+ * @extends {EventEmitter}
+ */
+export class LightingCache extends EventEmitter {
+
+  private levels: Map<number, number> = new Map();
+
+  /**
+   * Gets the last known level of a light.
+   * 
+   * @param {number} id - Light id (1-256).
+   * @returns {number} Undefined if the level isn't known yet.
+   */
+  get(id: number): number {
+    return this.levels.get(id);
+  }
+
+  /**
+   * Returns true if the light is known to be on, at any level.
+   * 
+   * @param {number} id - Light id (1-256).
+   * @returns {boolean}
+   */
+  isOn(id: number): boolean {
+    return this.levels.get(id) > 0;
+  }
+
+  /**
+   * Records the level of a light, emitting change with the id, level and previous level
+   * if it changed.
+   * 
+   * @param {number} id
+   * @param {number} level
+   */
+  update(id: number, level: number) {
+    const previous = this.levels.get(id);
+
+    if (previous !== level) {
+      this.levels.set(id, level);
+      this.emit('change', id, level, previous);
+    }
+  }
+}
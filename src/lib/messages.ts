@@ -5,11 +5,24 @@ import {
   WeekDay,
   Month,
   ThermostatMode,
-  ChimeMode
+  ChimeMode,
+  TemperatureGroup
 } from './enums';
-import { armStatus, armUpState, alarmState, zoneDefinition, EventType } from './types';
-import { AreaReport, ZoneDefinition } from './models';
-import { responseTypes } from './types';
+import {
+  armStatus,
+  armUpState,
+  alarmState,
+  contactIdQualifier,
+  customValueFormat,
+  zoneDefinition,
+  functionKeyIllumination,
+  keypadKey,
+  systemTrouble
+} from './types';
+import { AreaReport, CustomSetting, FirmwareVersion, SystemTrouble, ZoneDefinition } from './models';
+import { ElkChecksumError } from './errors';
+import { houseUnitToLight, maskUserCode } from './utils';
+import { decodeEvent, DecodedEvent } from './events';
 
 
 /**
@@ -61,11 +74,8 @@ export class ElkMessage {
       this.hexLength = response.substring(0, 2);
       this.checkSum = response.substring(length - 2, length);
 
-      // If it's a message I'm listening for, validate checksum
-      if (responseTypes.get(this.type) === undefined) {
-        if (!this.validChecksum()) {
-          throw new TypeError(`The calculated checksum does not match the checksum on the received message: ${this.message}`);
-        }
+      if (!this.validChecksum()) {
+        throw new ElkChecksumError(maskUserCode(this.message));
       }
     }
   }
@@ -75,7 +85,8 @@ export class ElkMessage {
   }
 
   calcChecksum() {
-    const buf = new Buffer(`${this.hexLength}${this.type}${this.body}`);
+    // Some values are sent as raw bytes, i.e. light levels in PS, so each character is one byte
+    const buf = Buffer.from(`${this.hexLength}${this.type}${this.body}`, 'latin1');
 
     let sum = 0
     for (let i = 0; i < buf.length; i++) {
@@ -104,6 +115,81 @@ export class ElkMessage {
   }
 }
 
+/**
+ * Represents an Alarm By Zone Reply (AZ). Only zones that are in alarm are listed, with the
+ * zone definition that caused the alarm.
+ * 
+ * @export
+ * @class AlarmByZoneReport
+ * @extends {ElkMessage}
+ */
+export class AlarmByZoneReport extends ElkMessage {
+  zones: ZoneDefinition[] = [];
+
+  constructor(response: string) {
+    super(null, response);
+
+    for (let i = 0; i < 208; i++) {
+      let def = this.body.substring(i, i + 1);
+      if (def === '0') {
+        continue;
+      }
+
+      this.zones.push(new ZoneDefinition(
+        i + 1,
+        zoneDefinition.get(def)
+      ));
+    }
+  }
+}
+
+/**
+ * Represents an Alarm Report (AR), sent by the M1XEP when it reports an alarm to the Ethernet
+ * client as a central station receiver. The panel resends the report until it's acknowledged with ar.
+ * 
+ * @export
+ * @class AlarmReport
+ * @extends {ElkMessage}
+ */
+export class AlarmReport extends ElkMessage {
+  /**
+   * Contact ID account number.
+   * 
+   * @type {string}
+   */
+  account: string;
+  /**
+   * Contact ID event qualifier: 'new', 'restore' or 'repeat' (a previously reported event that's
+   * still present).
+   * 
+   * @type {string}
+   */
+  qualifier: string;
+  /**
+   * Contact ID event code, i.e. 130 = burglary.
+   * 
+   * @type {number}
+   */
+  eventCode: number;
+  partition: number;
+  /**
+   * Zone number, or user number for opening and closing events.
+   * 
+   * @type {number}
+   */
+  id: number;
+
+  constructor(response: string) {
+    super(null, response);
+
+    this.account = this.body.substring(0, 6);
+    this.qualifier = contactIdQualifier.get(this.body.substring(6, 7));
+    this.eventCode = +this.body.substring(7, 10);
+    this.partition = +this.body.substring(10, 12);
+    this.id = +this.body.substring(12, 15);
+  }
+}
+
 /**
  * Represents an Area Change Update message (AS)
  * 
@@ -132,6 +218,103 @@ export class ArmingStatusReport extends ElkMessage {
   }
 }
 
+/**
+ * Base type for messages that carry the panel's date and time, as ssmmhhwddMMyyDCZ.
+ * 
+ * @export
+ * @class ClockData
+ * @extends {ElkMessage}
+ */
+export class ClockData extends ElkMessage {
+  date: Date;
+  /**
+   * Daylight saving time is in effect.
+   * 
+   * @type {boolean}
+   */
+  dst: boolean;
+  /**
+   * Panel displays time in 12 hour format.
+   * 
+   * @type {boolean}
+   */
+  clock12Hour: boolean;
+  /**
+   * Panel displays dates as dd/mm.
+   * 
+   * @type {boolean}
+   */
+  dayBeforeMonth: boolean;
+
+  constructor(response: string) {
+    super(null, response);
+
+    const seconds = +this.body.substring(0, 2);
+    const minutes = +this.body.substring(2, 4);
+    const hours = +this.body.substring(4, 6);
+    const day = +this.body.substring(7, 9);
+    const month = +this.body.substring(9, 11);
+    const year = 2000 + +this.body.substring(11, 13);
+
+    this.date = new Date(year, month - 1, day, hours, minutes, seconds);
+    this.dst = this.body.substring(13, 14) === '1';
+    this.clock12Hour = this.body.substring(14, 15) === '1';
+    this.dayBeforeMonth = this.body.substring(15, 16) === '1';
+  }
+}
+
+/**
+ * Represents Counter Value Data (CV), sent in response to a counter read (cv) or write (cx).
+ * 
+ * @export
+ * @class CounterValue
+ * @extends {ElkMessage}
+ */
+export class CounterValue extends ElkMessage {
+  id: number;
+  value: number;
+
+  constructor(response: string) {
+    super(null, response);
+
+    this.id = +this.body.substring(0, 2);
+    this.value = +this.body.substring(2, 7);
+  }
+}
+
+/**
+ * Represents Custom Value Data (CR). Holds one setting in response to cr, or all 20
+ * settings in response to cp.
+ * 
+ * @export
+ * @class CustomValueReport
+ * @extends {ElkMessage}
+ */
+export class CustomValueReport extends ElkMessage {
+  settings: CustomSetting[] = [];
+
+  constructor(response: string) {
+    super(null, response);
+
+    const id = +this.body.substring(0, 2);
+    // Setting 00 means all settings follow
+    const count = id === 0 ? 20 : 1;
+
+    for (let i = 0; i < count; i++) {
+      const data = this.body.substring(2 + i * 6, 8 + i * 6);
+      const value = +data.substring(0, 5);
+      const format = customValueFormat.get(data.substring(5, 6));
+
+      this.settings.push(new CustomSetting(
+        id === 0 ? i + 1 : id,
+        format,
+        // Times of day are packed as hour * 256 + minute
+        format === 'Time of Day' ? { hour: value >> 8, minute: value & 0xff } : value
+      ));
+    }
+  }
+}
+
 /**
  * Represents Entry/Exit Time Data (EE)
  * 
@@ -157,20 +340,56 @@ export class EntryExitTime extends ElkMessage {
   }
 }
 
-// export class KeypadFunctionKeypress extends ElkMessage {
-//   keypadId: number;
-//   functionKey: number;
-//   areaChimeMode: string[] = [];
+/**
+ * Represents an Ethernet Test (XK). The M1 sends this to the M1XEP every 30 seconds,
+ * with the panel's current date and time.
+ * 
+ * @export
+ * @class EthernetTest
+ * @extends {ClockData}
+ */
+export class EthernetTest extends ClockData {
+  constructor(response: string) {
+    super(response);
+  }
+}
+
+/**
+ * Represents a Function Key Pressed reply (KF), sent in response to a simulated function key
+ * press (kf).
+ * 
+ * @export
+ * @class KeypadFunctionKeypress
+ * @extends {ElkMessage}
+ */
+export class KeypadFunctionKeypress extends ElkMessage {
+  keypadId: number;
+  /**
+   * Function key pressed, i.e. 'F1'.
+   * 
+   * @type {string}
+   */
+  functionKey: string;
+  /**
+   * Chime mode of areas 1 to 8, see ChimeMode.
+   * 
+   * @type {string[]}
+   */
+  chimeModes: string[] = [];
 
-//   constructor(response: string) {
-//     super(null, response);
+  constructor(response: string) {
+    super(null, response);
 
-//     this.keypadId = +this.body.substring(0, 2);
-//     this.functionKey = + this.body.substring(2, 3);
+    const key = this.body.substring(2, 3);
 
-//   }
-// }
+    this.keypadId = +this.body.substring(0, 2);
+    this.functionKey = key >= '1' && key <= '6' ? `F${key}` : key;
 
+    for (let i = 0; i < 8; i++) {
+      this.chimeModes.push(ChimeMode[+this.body.substring(3 + i, 4 + i)]);
+    }
+  }
+}
 
 /**
  * Keypad Areas Report (KA).
@@ -205,6 +424,171 @@ export class KeypadAreasReport extends ElkMessage {
   }
 }
 
+/**
+ * Represents a Keypad Key Change Update (KC). Sent when a key is pressed on a keypad, or
+ * with key 0 when the F-key illumination or chime mode changes.
+ * 
+ * @export
+ * @class KeypadKeyChangeUpdate
+ * @extends {ElkMessage}
+ */
+export class KeypadKeyChangeUpdate extends ElkMessage {
+  keypadId: number;
+  /**
+   * Key pressed, i.e. 'Stay' or 'F1'. 'No Key' for status only updates.
+   * 
+   * @type {string}
+   */
+  key: string;
+  /**
+   * Illumination of F1 to F6: 'Off', 'On' or 'Blinking'.
+   * 
+   * @type {string[]}
+   */
+  functionKeys: string[] = [];
+  /**
+   * A code is required to bypass zones from this keypad.
+   * 
+   * @type {boolean}
+   */
+  bypassCodeRequired: boolean;
+  /**
+   * Chime mode of areas 1 to 8, see ChimeMode.
+   * 
+   * @type {string[]}
+   */
+  chimeModes: string[] = [];
+
+  constructor(response: string) {
+    super(null, response);
+
+    this.keypadId = +this.body.substring(0, 2);
+    this.key = keypadKey.get((+this.body.substring(2, 4)).toString());
+
+    for (let i = 0; i < 6; i++) {
+      this.functionKeys.push(functionKeyIllumination.get(this.body.substring(4 + i, 5 + i)));
+    }
+
+    this.bypassCodeRequired = this.body.substring(10, 11) === '1';
+
+    for (let i = 0; i < 8; i++) {
+      this.chimeModes.push(ChimeMode[+this.body.substring(11 + i, 12 + i)]);
+    }
+  }
+}
+
+/**
+ * Represents a Keypad Key Change Update (KC) from firmware older than 4.2.8, which only
+ * reports the keypad and the key pressed.
+ * 
+ * @export
+ * @class LegacyKeypadKeyChangeUpdate
+ * @extends {KeypadKeyChangeUpdate}
+ */
+export class LegacyKeypadKeyChangeUpdate extends KeypadKeyChangeUpdate {
+  constructor(response: string) {
+    super(response);
+
+    this.functionKeys = [];
+    this.bypassCodeRequired = false;
+    this.chimeModes = [];
+  }
+}
+
+/**
+ * Represents a Lighting Poll Response (DS), the level of a single light.
+ * 
+ * @export
+ * @class LightingPollResponse
+ * @extends {ElkMessage}
+ */
+export class LightingPollResponse extends ElkMessage {
+  /**
+   * Light id (1-256).
+   * 
+   * @type {number}
+   */
+  id: number;
+  /**
+   * 0 = Off, 1 = On, 2-99 = dimmed level.
+   * 
+   * @type {number}
+   */
+  level: number;
+
+  constructor(response: string) {
+    super(null, response);
+
+    this.id = +this.body.substring(0, 3);
+    this.level = +this.body.substring(3, 5);
+  }
+}
+
+/**
+ * Represents a PLC Change Update (PC), sent when a light changes.
+ * 
+ * @export
+ * @class LightingChangeUpdate
+ * @extends {ElkMessage}
+ */
+export class LightingChangeUpdate extends ElkMessage {
+  house: string;
+  unit: number;
+  /**
+   * Light id (1-256).
+   * 
+   * @type {number}
+   */
+  id: number;
+  /**
+   * 0 = Off, 1 = On, 2-99 = dimmed level.
+   * 
+   * @type {number}
+   */
+  level: number;
+
+  constructor(response: string) {
+    super(null, response);
+
+    this.house = this.body.substring(0, 1);
+    this.unit = +this.body.substring(1, 3);
+    this.id = houseUnitToLight(this.house, this.unit);
+    this.level = +this.body.substring(3, 5);
+  }
+}
+
+/**
+ * Represents PLC Status Report Data (PS), the levels of the 64 lights in a bank. Bank 0 is
+ * A1-D16, bank 1 E1-H16, bank 2 I1-L16 and bank 3 M1-P16.
+ * 
+ * @export
+ * @class LightingStatusReport
+ * @extends {ElkMessage}
+ */
+export class LightingStatusReport extends ElkMessage {
+  bank: number;
+  /**
+   * Light ids and levels, 0 = Off, 1 = On, 2-99 = dimmed level.
+   * 
+   * @type {{ id: number, level: number }[]}
+   */
+  lights: { id: number, level: number }[] = [];
+
+  constructor(response: string) {
+    super(null, response);
+
+    this.bank = +this.body.substring(0, 1);
+
+    for (let i = 0; i < 64; i++) {
+      // Levels are sent as the character code - 48
+      this.lights.push({
+        id: this.bank * 64 + i + 1,
+        level: this.body.charCodeAt(1 + i) - 48
+      });
+    }
+  }
+}
+
 /**
  * Represents System Log Data Update (LD)
  * 
@@ -215,6 +599,13 @@ export class KeypadAreasReport extends ElkMessage {
 export class LogDataUpdate extends ElkMessage {
   logIndex: string;
   event: string;
+  eventCode: number;
+  /**
+   * The event code decoded, with the zone, output, user or area it's about.
+   * 
+   * @type {DecodedEvent}
+   */
+  eventDetails: DecodedEvent;
   /**
    * Event number data, i.e. Zone number, User number, etc.
    * 
@@ -228,12 +619,20 @@ export class LogDataUpdate extends ElkMessage {
   day: number;
   dayOfWeek: string;
   year: string;
+  /**
+   * When the event was logged. The log doesn't record seconds.
+   * 
+   * @type {Date}
+   */
+  date: Date;
 
   constructor(response: string) {
     super(null, response);
 
-    this.event = this.getEventType(+this.body.substring(0, 4));
+    this.eventCode = +this.body.substring(0, 4);
     this.id = +this.body.substring(4, 7);
+    this.eventDetails = decodeEvent(this.eventCode, this.id);
+    this.event = this.eventDetails.label;
     this.areaId = +this.body.substring(7, 8);
     this.hour = this.body.substring(8, 10);
     this.minute = this.body.substring(10, 12);
@@ -242,20 +641,18 @@ export class LogDataUpdate extends ElkMessage {
     this.logIndex = this.body.substring(16, 19);
     this.dayOfWeek = WeekDay[+this.body.substring(19, 20)];
     this.year = this.body.substring(20, 22);
+    this.date = new Date(2000 + +this.year, +this.body.substring(12, 14) - 1, this.day, +this.hour, +this.minute);
   }
 
-  getEventType(event: number): string {
-    if (event >= 4001 && event <= 4208) {
-      return `Zone ${event - 4000} Status: ${event === 1 ? 'violated' : 'normal'}`;
-    } else if (event >= 5001 && event <= 5208) {
-      return `Zone ${event - 4000}  Bypassed: ${event === 1 ? 'bypassed' : ''}`;
-    } else if (event >= 6001 && event <= 6208) {
-      return `Alarm Memory: ${event === 1 ? 'alarm activated' : ''}`;
-    } else if (event >= 7001 && event <= 7208) {
-      return `Output ${event - 4000}  Status: ${event === 1 ? 'On' : 'Off'}`;
-    } else {
-      return EventType.get(event.toString());
-    }
+  /**
+   * Describes an event code. See decodeEvent for the event's category, subject and state.
+   * 
+   * @param {number} event - Event code.
+   * @param {number} [data] - Event number data, which holds the state of zone and output events.
+   * @returns {string}
+   */
+  getEventType(event: number, data?: number): string {
+    return decodeEvent(event, data).label;
   }
 }
 
@@ -303,6 +700,91 @@ export class OutputStatusReport extends ElkMessage {
   }
 }
 
+/**
+ * Represents Real Time Clock Data (RR), sent in response to a clock read (rr) or write (rw).
+ * 
+ * @export
+ * @class RealTimeClockData
+ * @extends {ClockData}
+ */
+export class RealTimeClockData extends ClockData {
+  constructor(response: string) {
+    super(response);
+  }
+}
+
+/**
+ * Represents a System Trouble Status (SS). Sent in response to ss, and when a trouble
+ * is raised or cleared.
+ * 
+ * @export
+ * @class SystemTroubleStatus
+ * @extends {ElkMessage}
+ */
+export class SystemTroubleStatus extends ElkMessage {
+  /**
+   * Active troubles.
+   * 
+   * @type {SystemTrouble[]}
+   */
+  troubles: SystemTrouble[] = [];
+
+  constructor(response: string) {
+    super(null, response);
+
+    systemTrouble.forEach((trouble, i) => {
+      const status = this.body.substring(i, i + 1);
+
+      if (status && status !== '0') {
+        this.troubles.push(new SystemTrouble(
+          trouble.name,
+          trouble.zone ? status.charCodeAt(0) - 48 : null
+        ));
+      }
+    });
+  }
+
+  /**
+   * Returns true if the named trouble is active, i.e. 'AC Fail'.
+   * 
+   * @param {string} name
+   * @returns {boolean}
+   */
+  hasTrouble(name: string): boolean {
+    return this.troubles.some((trouble) => trouble.name === name);
+  }
+}
+
+/**
+ * Represents Temperature Data (ST), the reading of a single sensor in response to st.
+ * 
+ * @export
+ * @class TemperatureData
+ * @extends {ElkMessage}
+ */
+export class TemperatureData extends ElkMessage {
+  /**
+   * Sensor group, see TemperatureGroup.
+   * 
+   * @type {string}
+   */
+  group: string;
+  id: number;
+  temperature: number;
+
+  constructor(response: string) {
+    super(null, response);
+
+    const group = +this.body.substring(0, 1);
+    // Zone sensors are offset by 60 and keypads by 40, thermostats aren't offset
+    const offset = [60, 40, 0][group] || 0;
+
+    this.group = TemperatureGroup[group];
+    this.id = +this.body.substring(1, 3);
+    this.temperature = +this.body.substring(3, 6) - offset;
+  }
+}
+
 /**
  * Represents Temerature Reply Data (LW), in reponse to a temperature request. 
  * 
@@ -360,7 +842,7 @@ export class ThermostatReply extends ElkMessage {
     let thermNo = this.body.substring(0, 2);
     this.id = thermNo === '0' ? 'Invalid' : parseInt(thermNo).toString();
     this.mode = ThermostatMode[this.body.substring(2, 3)];
-    this.hold = !this.body.substring(3, 4);
+    this.hold = this.body.substring(3, 4) === '1';
     this.fan = this.body.substring(4, 5) === '0' ? 'Auto' : 'On';
     this.temperature = +this.body.substring(5, 7);
     this.heatSetPoint = parseFloat(this.body.substring(7, 9));
@@ -408,6 +890,110 @@ export class TaskChangeUpdate extends ElkMessage {
   }
 }
 
+/**
+ * Represents a Valid User Code Areas reply (UA), the areas a user code can control. The
+ * code is masked in the message.
+ * 
+ * @export
+ * @class UserCodeAreasReport
+ * @extends {ElkMessage}
+ */
+export class UserCodeAreasReport extends ElkMessage {
+  /**
+   * Areas (1-8) the code can control. Empty if the code isn't valid.
+   * 
+   * @type {number[]}
+   */
+  areas: number[] = [];
+
+  constructor(response: string) {
+    super(null, response);
+
+    const mask = parseInt(this.body.substring(6, 8), 16) || 0;
+
+    for (let i = 0; i < 8; i++) {
+      if (mask & 1 << i) {
+        this.areas.push(i + 1);
+      }
+    }
+
+    // Never hold on to the code
+    this.body = `******${this.body.substring(6)}`;
+    this.message = maskUserCode(this.message);
+  }
+}
+
+/**
+ * Represents a Change User Code reply (CU).
+ * 
+ * @export
+ * @class UserCodeChangeReply
+ * @extends {ElkMessage}
+ */
+export class UserCodeChangeReply extends ElkMessage {
+  /**
+   * User number that was changed, 0 if the change failed.
+   * 
+   * @type {number}
+   */
+  userId: number;
+  /**
+   * 'changed', 'unauthorized' (the master code isn't allowed to change codes) or 'duplicate'
+   * (the new code is already in use).
+   * 
+   * @type {string}
+   */
+  result: string;
+
+  constructor(response: string) {
+    super(null, response);
+
+    const userId = +this.body.substring(0, 3);
+
+    if (userId === 0) {
+      this.result = 'unauthorized';
+    } else if (userId === 255) {
+      this.result = 'duplicate';
+    } else {
+      this.result = 'changed';
+    }
+    this.userId = this.result === 'changed' ? userId : 0;
+  }
+}
+
+/**
+ * Represents a Version Number Reply (VN), with the firmware versions of the M1 and M1XEP.
+ * 
+ * @export
+ * @class VersionReport
+ * @extends {ElkMessage}
+ */
+export class VersionReport extends ElkMessage {
+  m1Version: FirmwareVersion;
+  xepVersion: FirmwareVersion;
+
+  constructor(response: string) {
+    super(null, response);
+
+    this.m1Version = this.parseVersion(this.body.substring(0, 6));
+    this.xepVersion = this.parseVersion(this.body.substring(6, 12));
+  }
+
+  /**
+   * Versions are sent as 3 hex bytes, i.e. '050206' is 5.2.6.
+   * 
+   * @param {string} hex
+   * @returns {FirmwareVersion}
+   */
+  private parseVersion(hex: string): FirmwareVersion {
+    return new FirmwareVersion(
+      parseInt(hex.substring(0, 2), 16),
+      parseInt(hex.substring(2, 4), 16),
+      parseInt(hex.substring(4, 6), 16)
+    );
+  }
+}
+
 /**
  * Represents a Zone Bypass Reply (ZB)
  * 
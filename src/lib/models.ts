@@ -28,4 +28,147 @@ export class ZoneDefinition {
   ) {
 
   }
-}
\ No newline at end of file
+}
+/**
+ * Represents the last known state of a keypad, from Keypad Key Change Updates (KC).
+ * 
+ * @export
+ * @class KeypadStatus
+ */
+export class KeypadStatus {
+  constructor(
+    public id: number,
+    public lastKey: string,
+    public functionKeys: string[],
+    public chimeModes: string[],
+    public bypassCodeRequired: boolean
+  ) {
+
+  }
+}
+
+/**
+ * Represents an automation counter, with its name.
+ * 
+ * @export
+ * @class Counter
+ */
+export class Counter {
+  constructor(
+    public id: number,
+    public name: string,
+    public value: number
+  ) {
+
+  }
+}
+
+/**
+ * Represents a time of day, as held by a custom setting.
+ * 
+ * @export
+ * @interface TimeOfDay
+ */
+export interface TimeOfDay {
+  hour: number;
+  minute: number;
+}
+
+/**
+ * Represents a custom setting. The value is a number, a timer in seconds or a time of day,
+ * depending on the format.
+ * 
+ * @export
+ * @class CustomSetting
+ */
+export class CustomSetting {
+  constructor(
+    public id: number,
+    public format: string,
+    public value: number | TimeOfDay,
+    public name: string = null
+  ) {
+
+  }
+}
+
+/**
+ * Represents an active system trouble, i.e. AC Fail. Troubles such as Box Tamper hold the
+ * zone that caused them.
+ * 
+ * @export
+ * @class SystemTrouble
+ */
+export class SystemTrouble {
+  constructor(
+    public name: string,
+    public zoneId: number = null
+  ) {
+
+  }
+}
+
+/**
+ * Represents a firmware version, i.e. 5.2.6.
+ * 
+ * @export
+ * @class FirmwareVersion
+ */
+export class FirmwareVersion {
+  constructor(
+    public major: number,
+    public minor: number,
+    public build: number
+  ) {
+
+  }
+
+  /**
+   * Parses a dotted version, i.e. '5.2.6'.
+   * 
+   * @static
+   * @param {string} version
+   * @returns {FirmwareVersion}
+   */
+  static parse(version: string): FirmwareVersion {
+    const [major, minor, build] = version.split('.').map((part) => +part || 0);
+    return new FirmwareVersion(major, minor || 0, build || 0);
+  }
+
+  /**
+   * Returns true if this version is the same as, or newer than, the given version.
+   * 
+   * @param {FirmwareVersion} version
+   * @returns {boolean}
+   */
+  atLeast(version: FirmwareVersion): boolean {
+    if (this.major !== version.major) {
+      return this.major > version.major;
+    }
+    if (this.minor !== version.minor) {
+      return this.minor > version.minor;
+    }
+    return this.build >= version.build;
+  }
+
+  toString(): string {
+    return `${this.major}.${this.minor}.${this.build}`;
+  }
+}
+
+/**
+ * Represents a temperature sensor reading, with the sensor's name.
+ * 
+ * @export
+ * @class TemperatureReading
+ */
+export class TemperatureReading {
+  constructor(
+    public group: string,
+    public id: number,
+    public temperature: number,
+    public name: string = null
+  ) {
+
+  }
+}
@@ -0,0 +1,134 @@
+interface QueuedCommand {
+  frame: string;
+  resolve: () => void;
+  reject: (err: Error) => void;
+}
+
+/**
+ * Writes a frame to the connection, calling back once it has been written.
+ */
+export type FrameWriter = (frame: string, callback: (err?: Error) => void) => void;
+
+/**
+ * Outbound command queue. Frames are written one at a time, at least `interval` ms apart, so the
+ * panel doesn't drop any. Priority frames (i.e. disarm) jump ahead of everything else.
+ * 
+ * Commands are buffered until a writer is attached with start().
+ * @export
+ * @class CommandQueue
+ */
+export class CommandQueue {
+
+  private commands: QueuedCommand[] = [];
+  private priorityCommands: QueuedCommand[] = [];
+  private writer: FrameWriter = null;
+  private timer: any = null;
+  private writing: boolean = false;
+  private lastSentAt: number = 0;
+
+  /**
+   * Creates an instance of CommandQueue.
+   * 
+   * @param {number} [interval=100] - Minimum gap, in ms, between frames.
+   */
+  constructor(public interval: number = 100) {
+
+  }
+
+  /**
+   * Number of commands waiting to be sent.
+   * 
+   * @readonly
+   * @type {number}
+   */
+  get length(): number {
+    return this.commands.length + this.priorityCommands.length;
+  }
+
+  /**
+   * Adds a frame to the queue. Resolves once the frame has been written.
+   * 
+   * @param {string} frame
+   * @param {boolean} [priority=false]
+   * @returns {Promise<void>}
+   */
+  enqueue(frame: string, priority: boolean = false): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const command = { frame, resolve, reject };
+
+      if (priority) {
+        this.priorityCommands.push(command);
+      } else {
+        this.commands.push(command);
+      }
+
+      this.drain();
+    });
+  }
+
+  /**
+   * Starts sending queued commands using the given writer.
+   * 
+   * @param {FrameWriter} writer
+   */
+  start(writer: FrameWriter) {
+    this.writer = writer;
+    this.drain();
+  }
+
+  /**
+   * Stops sending. Queued commands stay buffered until start() is called again.
+   */
+  stop() {
+    this.writer = null;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Rejects every queued command with the given error.
+   * 
+   * @param {Error} err
+   */
+  flush(err: Error) {
+    const commands = this.priorityCommands.concat(this.commands);
+
+    this.priorityCommands = [];
+    this.commands = [];
+    commands.forEach((command) => command.reject(err));
+  }
+
+  private drain() {
+    if (!this.writer || this.timer || this.writing || this.length === 0) {
+      return;
+    }
+
+    const wait = this.lastSentAt + this.interval - Date.now();
+    if (wait > 0) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.drain();
+      }, wait);
+      return;
+    }
+
+    const command = this.priorityCommands.length > 0 ? this.priorityCommands.shift() : this.commands.shift();
+
+    this.writing = true;
+    this.writer(command.frame, (err) => {
+      this.writing = false;
+      this.lastSentAt = Date.now();
+
+      if (err) {
+        command.reject(err);
+      } else {
+        command.resolve();
+      }
+
+      this.drain();
+    });
+  }
+}
@@ -0,0 +1,143 @@
+import { ElkTimeoutError } from './errors';
+import { RequestOptions } from './interfaces';
+
+/**
+ * Describes the reply a request is waiting for.
+ */
+export interface ReplyOptions {
+  /**
+   * Reply message type, i.e. 'AS'.
+   */
+  type: string;
+  /**
+   * Name of the reply used in the timeout error, i.e. 'Arming Status'.
+   */
+  description: string;
+  /**
+   * Returns true if a reply of the right type belongs to this request, i.e. the zone id matches.
+   */
+  match?: (reply: any) => boolean;
+}
+
+export interface PendingRequestOptions extends ReplyOptions {
+  /**
+   * Command the reply is for, i.e. 'as'.
+   */
+  command: string;
+  /**
+   * Time, in ms, to wait for the reply.
+   */
+  timeout: number;
+}
+
+/**
+ * Sends a request and waits for the matching reply. Lets objects such as VirtualKeypad
+ * make requests through Elk.
+ */
+export type Requester = <T>(command: string, reply: ReplyOptions, options: number | RequestOptions) => Promise<T>;
+
+interface PendingRequest {
+  options: PendingRequestOptions;
+  timer: any;
+  resolve: (reply: any) => void;
+  reject: (reason: any) => void;
+}
+
+/**
+ * Registry of requests waiting for a reply from the panel. Replies are matched by type, and
+ * optionally by id, to the oldest pending request. Timers are cleared as soon as a request settles.
+ * 
+ * @export
+ * @class RequestManager
+ */
+export class RequestManager {
+
+  private pending: PendingRequest[] = [];
+
+  /**
+   * Number of requests waiting for a reply.
+   * 
+   * @readonly
+   * @type {number}
+   */
+  get size(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Registers a request. The returned promise settles with the matching reply, or rejects if the
+   * reply doesn't arrive within the timeout, with an ElkTimeoutError. The timeout starts with start(), once the request
+   * has been written, since it may wait in the command queue first.
+   * 
+   * @template T
+   * @param {PendingRequestOptions} options
+   * @returns {Promise<T>}
+   */
+  register<T>(options: PendingRequestOptions): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.pending.push({ options, timer: null, resolve, reject });
+    });
+  }
+
+  /**
+   * Starts the timeout for the request registered with the given options.
+   * 
+   * @param {PendingRequestOptions} options
+   */
+  start(options: PendingRequestOptions) {
+    const request = this.pending.find((request) => request.options === options);
+
+    if (request && !request.timer) {
+      request.timer = setTimeout(() => this.settle(request, () =>
+        request.reject(new ElkTimeoutError(options.command, options.type, options.description))), options.timeout);
+    }
+  }
+
+  /**
+   * Resolves the oldest pending request the reply belongs to.
+   * 
+   * @param {*} reply - Message received from the panel.
+   * @returns {boolean} True if a request was waiting for the reply.
+   */
+  handle(reply: any): boolean {
+    const request = this.pending.find((request) =>
+      request.options.type === reply.type && (!request.options.match || request.options.match(reply)));
+
+    if (!request) {
+      return false;
+    }
+
+    this.settle(request, () => request.resolve(reply));
+    return true;
+  }
+
+  /**
+   * Rejects the pending request registered with the given options, i.e. when the command
+   * could not be sent.
+   * 
+   * @param {PendingRequestOptions} options
+   * @param {*} reason
+   */
+  cancel(options: PendingRequestOptions, reason: any) {
+    const request = this.pending.find((request) => request.options === options);
+
+    if (request) {
+      this.settle(request, () => request.reject(reason));
+    }
+  }
+
+  /**
+   * Rejects every pending request.
+   * 
+   * @param {*} reason
+   */
+  rejectAll(reason: any) {
+    this.pending.slice().forEach((request) => this.settle(request, () => request.reject(reason)));
+  }
+
+  private settle(request: PendingRequest, done: () => void) {
+    clearTimeout(request.timer);
+    this.pending.splice(this.pending.indexOf(request), 1);
+    done();
+  }
+}
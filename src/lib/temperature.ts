@@ -0,0 +1,74 @@
+import { TemperatureGroup } from './enums';
+import { TemperatureThreshold } from './interfaces';
+import { TemperatureReading } from './models';
+
+/**
+ * A temperature passing, or returning from, one of its thresholds.
+ * 
+ * @export
+ * @interface TemperatureAlert
+ */
+export interface TemperatureAlert {
+  /**
+   * 'high' or 'low' when a threshold is reached, 'normal' once the temperature is back
+   * within the thresholds by the hysteresis.
+   */
+  alert: 'high' | 'low' | 'normal';
+  reading: TemperatureReading;
+  threshold: TemperatureThreshold;
+}
+
+/**
+ * Tracks temperature readings against per-sensor thresholds. An alert is only raised when a
+ * sensor's state changes, and hysteresis stops a reading hovering at a threshold from
+ * raising an alert on every poll.
+ * 
+ * @export
+ * @class TemperatureMonitor
+ */
+export class TemperatureMonitor {
+
+  private states: Map<string, 'high' | 'low' | 'normal'> = new Map();
+
+  constructor(public thresholds: TemperatureThreshold[]) {
+
+  }
+
+  /**
+   * Checks a reading against the thresholds for its sensor.
+   * 
+   * @param {TemperatureReading} reading
+   * @returns {TemperatureAlert} Null if the sensor's state didn't change, or it has no thresholds.
+   */
+  check(reading: TemperatureReading): TemperatureAlert {
+    const threshold = this.thresholds.find((threshold) =>
+      TemperatureGroup[threshold.group] === reading.group && threshold.id === reading.id);
+
+    if (!threshold) {
+      return null;
+    }
+
+    const key = `${reading.group}:${reading.id}`;
+    const hysteresis = threshold.hysteresis === undefined ? 1 : threshold.hysteresis;
+    const temperature = reading.temperature;
+    const state = this.states.get(key) || 'normal';
+    let next = state;
+
+    if (threshold.high !== undefined && temperature >= threshold.high) {
+      next = 'high';
+    } else if (threshold.low !== undefined && temperature <= threshold.low) {
+      next = 'low';
+    } else if (state === 'high' && temperature <= threshold.high - hysteresis) {
+      next = 'normal';
+    } else if (state === 'low' && temperature >= threshold.low + hysteresis) {
+      next = 'normal';
+    }
+
+    if (next === state) {
+      return null;
+    }
+
+    this.states.set(key, next);
+    return { alert: next, reading, threshold };
+  }
+}
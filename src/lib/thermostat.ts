@@ -0,0 +1,80 @@
+import { EventEmitter } from 'events';
+import { ThermostatMode } from './enums';
+import { RequestOptions } from './interfaces';
+import { ThermostatReply } from './messages';
+import { ElkValidationError } from './errors';
+
+/**
+ * What a Thermostat needs from Elk to read and program the thermostat.
+ */
+export interface ThermostatHost {
+  requestThermostat(id: number, options?: number | RequestOptions): Promise<ThermostatReply>;
+  setThermostat(thermostatId: number, value: number, element: number): Promise<void>;
+}
+
+/**
+ * Controls a thermostat with named setters, instead of setThermostat's element numbers. The
+ * last known state is kept up to date as Thermostat Data Replies (TR) arrive.
+ * 
+ * @export
+ * @class Thermostat
+ * @extends {EventEmitter}
+ */
+export class Thermostat extends EventEmitter {
+
+  constructor(
+    public id: number,
+    private host: ThermostatHost,
+    public state: ThermostatReply = null
+  ) {
+    super();
+  }
+
+  /**
+   * Requests the current state of the thermostat.
+   * 
+   * @param {(number | RequestOptions)} [options] - Timeout in ms, or request options.
+   * @returns {Promise<ThermostatReply>}
+   */
+  refresh(options: number | RequestOptions = {}): Promise<ThermostatReply> {
+    return this.host.requestThermostat(this.id, options);
+  }
+
+  setMode(mode: ThermostatMode): Promise<void> {
+    return this.host.setThermostat(this.id, mode, 0);
+  }
+
+  setHold(hold: boolean): Promise<void> {
+    if (typeof hold !== 'boolean') {
+      return Promise.reject(new ElkValidationError('The hold parameter must be true or false.', 'hold'));
+    }
+
+    return this.host.setThermostat(this.id, hold ? 1 : 0, 1);
+  }
+
+  setFan(fan: 'auto' | 'on'): Promise<void> {
+    if (fan !== 'auto' && fan !== 'on') {
+      return Promise.reject(new ElkValidationError('The fan parameter must be \'auto\' or \'on\'.', 'fan'));
+    }
+
+    return this.host.setThermostat(this.id, fan === 'on' ? 1 : 0, 2);
+  }
+
+  setCoolSetPoint(temperature: number): Promise<void> {
+    return this.host.setThermostat(this.id, temperature, 4);
+  }
+
+  setHeatSetPoint(temperature: number): Promise<void> {
+    return this.host.setThermostat(this.id, temperature, 5);
+  }
+
+  /**
+   * Records the state of the thermostat and emits change.
+   * 
+   * @param {ThermostatReply} state
+   */
+  update(state: ThermostatReply) {
+    this.state = state;
+    this.emit('change', state);
+  }
+}
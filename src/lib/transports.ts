@@ -0,0 +1,306 @@
+import { connect as tlsConnect, ConnectionOptions, TLSSocket } from 'tls';
+import { connect as netConnect } from 'net';
+import { open, close } from 'fs';
+import { ReadStream as TtyStream } from 'tty';
+import { execFile } from 'child_process';
+import { Duplex } from 'stream';
+
+/**
+ * A way of reaching the Elk M1. Elk can run over any Duplex stream a transport opens.
+ * 
+ * @export
+ * @interface Transport
+ */
+export interface Transport {
+  /**
+   * True if the M1XEP login (Username:/Password:) must complete before the panel accepts commands.
+   */
+  readonly requiresLogin: boolean;
+
+  /**
+   * Opens a new stream to the panel. onOpen is called once the stream is ready for data.
+   * 
+   * @param {() => void} onOpen
+   * @returns {Duplex}
+   */
+  open(onOpen: () => void): Duplex;
+}
+
+/**
+ * Non-secure connection to the M1XEP, usually port 2101.
+ * 
+ * @export
+ * @class TcpTransport
+ * @implements {Transport}
+ */
+export class TcpTransport implements Transport {
+  readonly requiresLogin = false;
+
+  constructor(
+    public host: string,
+    public port: number = 2101
+  ) {
+
+  }
+
+  open(onOpen: () => void): Duplex {
+    return netConnect({ host: this.host, port: this.port }, onOpen);
+  }
+}
+
+export interface TlsTransportOptions extends ConnectionOptions {
+  /**
+   * Expected SHA-256 (or SHA-1) fingerprint of the server certificate, i.e. 'AB:CD:...'.
+   */
+  fingerprint?: string;
+}
+
+/**
+ * Reason a TLS connection failed.
+ */
+export type TlsErrorReason = 'protocol' | 'certificate' | 'pin' | 'unknown';
+
+/**
+ * Secure connection to the M1XEP, usually port 2601. Requires a login.
+ * 
+ * @export
+ * @class TlsTransport
+ * @implements {Transport}
+ */
+export class TlsTransport implements Transport {
+  readonly requiresLogin = true;
+
+  constructor(
+    public host: string,
+    public port: number = 2601,
+    public tlsOptions: TlsTransportOptions = {}
+  ) {
+
+  }
+
+  open(onOpen: () => void): Duplex {
+    const { fingerprint, ...options } = this.tlsOptions;
+
+    const socket = tlsConnect(this.port, this.host, options, () => {
+      if (fingerprint && !matchesFingerprint(socket, fingerprint)) {
+        const err: any = new Error('The M1XEP certificate does not match the pinned fingerprint');
+        err.code = 'ERR_TLS_CERT_PIN_MISMATCH';
+        return socket.destroy(err);
+      }
+
+      onOpen();
+    });
+
+    return socket;
+  }
+}
+
+/**
+ * Works out why a TLS connection failed: the protocol version (or ciphers) could not be
+ * agreed, the certificate was rejected, or the certificate did not match the pinned fingerprint.
+ * 
+ * @export
+ * @param {*} err
+ * @returns {TlsErrorReason}
+ */
+export function getTlsErrorReason(err: any): TlsErrorReason {
+  const code: string = (err && err.code) || '';
+  const message: string = (err && err.message) || '';
+
+  if (code === 'ERR_TLS_CERT_PIN_MISMATCH') {
+    return 'pin';
+  }
+  if (/PROTOCOL|VERSION|CIPHER|HANDSHAKE_FAILURE/.test(code)
+    || (code === 'EPROTO' && /version|protocol|cipher|handshake/i.test(message))) {
+    return 'protocol';
+  }
+  if (/CERT|SIGNATURE|ISSUER|CHAIN/.test(code)) {
+    return 'certificate';
+  }
+
+  return 'unknown';
+}
+
+function normalizeFingerprint(fingerprint: string) {
+  return fingerprint.replace(/[^0-9a-f]/gi, '').toUpperCase();
+}
+
+function matchesFingerprint(socket: TLSSocket, fingerprint: string) {
+  const expected = normalizeFingerprint(fingerprint);
+  const cert = socket.getPeerCertificate();
+
+  if (!cert || !cert.fingerprint) {
+    return false;
+  }
+
+  // SHA-1 fingerprints are 40 hex digits, SHA-256 are 64
+  const actual = expected.length === 40 ? cert.fingerprint : cert.fingerprint256;
+  return normalizeFingerprint(actual) === expected;
+}
+
+export interface SerialOptions {
+  /**
+   * Baud rate set on the device, using stty, before it is opened. The M1 defaults to 115200.
+   * Set to 0 to leave the device settings alone.
+   */
+  baudRate?: number;
+}
+
+/**
+ * Direct RS-232 connection to the M1 serial port, using a tty device path, i.e. /dev/ttyUSB0.
+ * 
+ * @export
+ * @class SerialTransport
+ * @implements {Transport}
+ */
+export class SerialTransport implements Transport {
+  readonly requiresLogin = false;
+
+  constructor(
+    public path: string,
+    public options: SerialOptions = {}
+  ) {
+
+  }
+
+  open(onOpen: () => void): Duplex {
+    const baudRate = this.options.baudRate === undefined ? 115200 : this.options.baudRate;
+    return new SerialStream(this.path, baudRate, onOpen);
+  }
+}
+
+/**
+ * In-memory transport, for tests. Write to `panel` to send data to Elk, and read from
+ * `panel` to see what Elk sent. Destroying `panel` simulates a lost connection.
+ * 
+ * @export
+ * @class MemoryTransport
+ * @implements {Transport}
+ */
+export class MemoryTransport implements Transport {
+  /**
+   * Panel side of the most recently opened stream.
+   * 
+   * @type {Duplex}
+   */
+  public panel: Duplex = null;
+
+  constructor(public readonly requiresLogin: boolean = false) {
+
+  }
+
+  open(onOpen: () => void): Duplex {
+    const [client, panel] = createStreamPair();
+    this.panel = panel;
+    process.nextTick(onOpen);
+    return client;
+  }
+}
+
+/**
+ * Creates two Duplex streams connected to each other.
+ */
+function createStreamPair(): [Duplex, Duplex] {
+  let a: Duplex;
+  let b: Duplex;
+
+  const side = (other: () => Duplex) => new Duplex({
+    read() { },
+    write(chunk, encoding, callback) {
+      other().push(chunk);
+      callback();
+    },
+    final(callback) {
+      other().push(null);
+      callback();
+    },
+    destroy(err, callback) {
+      if (!other().destroyed) {
+        other().destroy();
+      }
+      callback(err);
+    }
+  });
+
+  a = side(() => b);
+  b = side(() => a);
+
+  return [a, b];
+}
+
+/**
+ * Duplex stream over a tty device. The device is read through a tty handle, which doesn't block
+ * a threadpool thread waiting for data, so the stream can always be destroyed.
+ */
+class SerialStream extends Duplex {
+  private tty: TtyStream = null;
+
+  constructor(private path: string, baudRate: number, onOpen: () => void) {
+    super();
+
+    this.configure(baudRate, (err) => {
+      if (err) {
+        return this.destroy(err);
+      }
+
+      open(this.path, 'r+', (err, fd) => {
+        if (err) {
+          return this.destroy(err);
+        }
+        if (this.destroyed) {
+          return close(fd, () => { });
+        }
+
+        try {
+          // The handle owns fd from here, and closes it when destroyed
+          this.tty = new TtyStream(fd);
+        } catch (err) {
+          close(fd, () => { });
+          return this.destroy(err);
+        }
+
+        this.tty.on('data', (chunk) => {
+          if (!this.push(chunk)) {
+            this.tty.pause();
+          }
+        });
+        this.tty.on('end', () => this.destroy());
+        this.tty.on('error', (err) => this.destroy(err));
+
+        onOpen();
+      });
+    });
+  }
+
+  private configure(baudRate: number, callback: (err?: Error) => void) {
+    if (!baudRate) {
+      return callback();
+    }
+
+    execFile('stty', ['-F', this.path, baudRate.toString(), 'raw', '-echo'], (err) => callback(err));
+  }
+
+  _read() {
+    if (this.tty) {
+      this.tty.resume();
+    }
+  }
+
+  _write(chunk: any, encoding: BufferEncoding, callback: (err?: Error) => void) {
+    if (!this.tty) {
+      return callback(new Error(`Serial device ${this.path} is not open`));
+    }
+
+    this.tty.write(chunk, (err) => callback(err));
+  }
+
+  _destroy(err: Error, callback: (err?: Error) => void) {
+    if (!this.tty || this.tty.destroyed) {
+      return callback(err);
+    }
+
+    const tty = this.tty;
+    tty.once('close', () => callback(err));
+    tty.destroy();
+  }
+}
@@ -4,18 +4,32 @@
 */
 export const responseTypes = new Map(
   [
+    ['AR', 'AlarmReport'],
     ['AS', 'ArmingStatusReport'],
+    ['AZ', 'AlarmByZoneReport'],
     ['CC', 'OutputChangeUpdate'],
+    ['CR', 'CustomValueReport'],
     ['CS', 'OutputStatusReport'],
+    ['CU', 'UserCodeChangeReply'],
+    ['CV', 'CounterValue'],
+    ['DS', 'LightingPollResponse'],
     ['EE', 'EntryExitTime'],
     ['KA', 'KeypadAreasReport'],
     ['KC', 'KeypadKeyChangeUpdate'],
-    // ['KF', 'KeypadFunctionKeypress'],
+    ['KF', 'KeypadFunctionKeypress'],
     ['LD', 'LogDataUpdate'],
     ['LW', 'TemperatureReply'],
+    ['PC', 'LightingChangeUpdate'],
+    ['PS', 'LightingStatusReport'],
+    ['RR', 'RealTimeClockData'],
     ['TC', 'TaskChangeUpdate'],
     ['TR', 'ThermostatReply'],
+    ['UA', 'UserCodeAreasReport'],
+    ['VN', 'VersionReport'],
+    ['XK', 'EthernetTest'],
     ['SD', 'TextStringDescriptionReport'],
+    ['SS', 'SystemTroubleStatus'],
+    ['ST', 'TemperatureData'],
     ['ZC', 'ZoneChangeUpdate'],
     ['ZD', 'ZoneDefinitionReport'],
     ['ZP', 'ZonePartitionReport'],
@@ -24,6 +38,38 @@ export const responseTypes = new Map(
   ]
 );
 
+/*
+** Parsers for replies whose format changed between M1 firmware versions. The first
+** variant whose maxVersion is newer than the panel's firmware is used, otherwise the
+** parser from responseTypes.
+*/
+export const responseVariants = new Map<string, { maxVersion: string, parser: string }[]>(
+  [
+    ['KC', [{ maxVersion: '4.2.8', parser: 'LegacyKeypadKeyChangeUpdate' }]]
+  ]
+);
+
+/*
+** Minimum M1 firmware version needed for commands that weren't in the first firmware
+** releases. Commands that aren't listed are always allowed.
+*/
+export const commandCapabilities = new Map(
+  [
+    ['ar', '5.1.0'],
+    ['az', '4.2.8'],
+    ['cp', '4.2.8'],
+    ['cr', '4.2.8'],
+    ['cw', '4.2.8'],
+    ['cv', '4.2.8'],
+    ['cx', '4.2.8'],
+    ['kc', '4.2.8'],
+    ['kf', '4.2.8'],
+    ['rr', '4.3.1'],
+    ['rw', '4.3.1'],
+    ['ss', '4.5.0']
+  ]
+);
+
 /*
 ** Represents the Zone Status table
 */
@@ -142,6 +188,105 @@ export const zoneDefinition = new Map(
   ]
 );
 
+/*
+** Contact ID event qualifiers, reported by an Alarm Report (AR)
+*/
+export const contactIdQualifier = new Map(
+  [
+    ['1', 'new'],
+    ['3', 'restore'],
+    ['6', 'repeat']
+  ]
+);
+
+/*
+** Keys reported by a Keypad Key Change Update (KC)
+*/
+export const keypadKey = new Map(
+  [
+    ['0', 'No Key'],
+    ['1', '1'],
+    ['2', '2'],
+    ['3', '3'],
+    ['4', '4'],
+    ['5', '5'],
+    ['6', '6'],
+    ['7', '7'],
+    ['8', '8'],
+    ['9', '9'],
+    ['10', '0'],
+    ['11', '*'],
+    ['12', '#'],
+    ['13', 'F1'],
+    ['14', 'F2'],
+    ['15', 'F3'],
+    ['16', 'F4'],
+    ['17', 'Stay'],
+    ['18', 'Exit'],
+    ['19', 'Chime'],
+    ['20', 'Bypass'],
+    ['21', 'Elk'],
+    ['22', 'Down'],
+    ['23', 'Up'],
+    ['24', 'Right'],
+    ['25', 'Left'],
+    ['26', 'F6'],
+    ['27', 'F5'],
+    ['28', 'Data Key Mode']
+  ]
+);
+
+export const functionKeyIllumination = new Map(
+  [
+    ['0', 'Off'],
+    ['1', 'On'],
+    ['2', 'Blinking']
+  ]
+);
+
+/*
+** Formats of custom setting values (CR)
+*/
+export const customValueFormat = new Map(
+  [
+    ['0', 'Number'],
+    ['1', 'Timer'],
+    ['2', 'Time of Day']
+  ]
+);
+
+/*
+** Positions of the System Trouble Status (SS). Troubles marked with zone hold the zone
+** number, as the character code - 48, instead of a flag.
+*/
+export const systemTrouble = new Map<number, { name: string, zone: boolean }>(
+  [
+    [0, { name: 'AC Fail', zone: false }],
+    [1, { name: 'Box Tamper', zone: true }],
+    [2, { name: 'Fail To Communicate', zone: false }],
+    [3, { name: 'EEProm Memory Error', zone: false }],
+    [4, { name: 'Low Battery Control', zone: false }],
+    [5, { name: 'Transmitter Low Battery', zone: true }],
+    [6, { name: 'Over Current', zone: false }],
+    [7, { name: 'Telephone Fault', zone: false }],
+    [9, { name: 'Output 2', zone: false }],
+    [10, { name: 'Missing Keypad', zone: false }],
+    [11, { name: 'Zone Expander', zone: false }],
+    [12, { name: 'Output Expander', zone: false }],
+    [14, { name: 'ELKRP Remote Access', zone: false }],
+    [16, { name: 'Common Area Not Armable', zone: false }],
+    [17, { name: 'Flash Memory Error', zone: false }],
+    [18, { name: 'Security Alert', zone: true }],
+    [19, { name: 'Serial Port Expander', zone: false }],
+    [20, { name: 'Lost Transmitter', zone: true }],
+    [21, { name: 'GE Smoke CleanMe', zone: false }],
+    [22, { name: 'Ethernet', zone: false }],
+    [31, { name: 'Display Message In Keypad Line 1', zone: false }],
+    [32, { name: 'Display Message In Keypad Line 2', zone: false }],
+    [33, { name: 'Fire', zone: true }]
+  ]
+);
+
 // Used for querying Text Descriptions
 export const textDescriptionMaxRange = {
   Zone: 208,
@@ -166,7 +311,9 @@ export const textDescriptionMaxRange = {
   AudioSource: 12
 };
 
-// TODO: Need to add events 4001-7208
+/*
+** Event log codes 1000-3096. Zone and output events 4001-7208 are decoded by decodeEvent.
+*/
 export const EventType = new Map(
   [
     ['1000', 'No Event'],
@@ -460,6 +607,7 @@ export const EventType = new Map(
     ['1288', 'AREA 4 EXIT DELAY ENDS'],
     ['1289', 'AREA 5 EXIT DELAY ENDS'],
     ['1290', 'AREA 6 EXIT DELAY ENDS'],
+    ['1291', 'AREA 7 EXIT DELAY ENDS'],
     ['1292', 'AREA 8 EXIT DELAY ENDS'],
     ['1293', 'AUTOMATIC CLOSING'],
     ['1294', 'EARLY CLOSING'],
@@ -488,6 +636,7 @@ export const EventType = new Map(
     ['1317', 'ACCESS KEYPAD 05'],
     ['1318', 'ACCESS KEYPAD 06'],
     ['1319', 'ACCESS KEYPAD 07'],
+    ['1320', 'ACCESS KEYPAD 08'],
     ['1321', 'ACCESS KEYPAD 09'],
     ['1322', 'ACCESS KEYPAD 10'],
     ['1323', 'ACCESS KEYPAD 11'],
@@ -1,3 +1,6 @@
+import { BackoffOptions } from './interfaces';
+import { ElkAbortError } from './errors';
+
 export const leftPad = function (str: string, len: number, c: string | number) {
   str = String(str);
   var i = -1;
@@ -7,4 +10,102 @@ export const leftPad = function (str: string, len: number, c: string | number) {
     str = c + str;
   }
   return str;
-}
\ No newline at end of file
+}
+
+export const defaultBackoff: BackoffOptions = {
+  initialDelay: 1000,
+  multiplier: 2,
+  maxDelay: 60000,
+  jitter: 0.2,
+  maxAttempts: 0
+};
+
+/**
+ * Calculates the delay, in ms, before the given attempt (0 based).
+ * 
+ * @param {number} attempt
+ * @param {BackoffOptions} options
+ * @returns {number}
+ */
+export const backoffDelay = function (attempt: number, options: BackoffOptions) {
+  const opts = Object.assign({}, defaultBackoff, options);
+  let delay = Math.min(opts.initialDelay * Math.pow(opts.multiplier, attempt), opts.maxDelay);
+
+  if (opts.jitter > 0) {
+    // Spread the delay evenly over +/- jitter
+    delay += delay * opts.jitter * (Math.random() * 2 - 1);
+  }
+
+  return Math.max(0, Math.round(delay));
+}
+
+/**
+ * Resolves after the given number of ms. Rejects with an ElkAbortError if the signal is aborted first.
+ * 
+ * @param {number} ms
+ * @param {AbortSignal} [signal]
+ * @returns {Promise<void>}
+ */
+export const wait = function (ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal && signal.aborted) {
+      return reject(new ElkAbortError());
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ElkAbortError());
+    };
+    const timer = setTimeout(() => {
+      if (signal) {
+        signal.removeEventListener('abort', onAbort);
+      }
+      resolve();
+    }, ms);
+
+    if (signal) {
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
+  });
+}
+
+const houseCodes = 'ABCDEFGHIJKLMNOP';
+
+/**
+ * Converts a light id (1-256) to an X10 style house code and unit, i.e. 17 is 'B01'.
+ * 
+ * @param {number} id
+ * @returns {string}
+ */
+export const lightToHouseUnit = function (id: number): string {
+  const house = houseCodes.charAt(Math.floor((id - 1) / 16));
+  const unit = (id - 1) % 16 + 1;
+
+  return `${house}${leftPad(unit.toString(), 2, '0')}`;
+}
+
+/**
+ * Converts an X10 style house code (A-P) and unit (1-16) to a light id (1-256).
+ * 
+ * @param {string} house
+ * @param {number} unit
+ * @returns {number}
+ */
+export const houseUnitToLight = function (house: string, unit: number): number {
+  return houseCodes.indexOf(house.toUpperCase()) * 16 + unit;
+}
+
+/**
+ * Masks the user code (characters 4-10) of a UA frame so it can be put in an event or error.
+ * Any other frame is returned as is.
+ * 
+ * @param {string} frame
+ * @returns {string}
+ */
+export const maskUserCode = function (frame: string): string {
+  if (frame.substring(2, 4) !== 'UA') {
+    return frame;
+  }
+
+  return `${frame.substring(0, 4)}${'*'.repeat(Math.min(6, frame.length - 4))}${frame.substring(10)}`;
+}
@@ -0,0 +1,1009 @@
+import Elk = require('../../src/index');
+import { MemoryTransport } from '../../src/lib/transports';
+import { TextDescriptionType } from '../../src/lib/enums';
+import { ElkMessage } from '../../src/lib/messages';
+
+import { expect } from 'chai';
+
+describe('Elk over MemoryTransport', () => {
+  var transport: MemoryTransport;
+  var elk: Elk;
+
+  beforeEach(function(done) {
+    transport = new MemoryTransport();
+    elk = new Elk(undefined, undefined, { transport, reconnect: false });
+    elk.once('connected', () => done());
+    elk.connect();
+  });
+
+  afterEach(function() {
+    elk.disconnect();
+  });
+
+  describe('link monitor', () => {
+    it('should emit linkDown when nothing is received', (done) => {
+      const monitored = new Elk(undefined, undefined, {
+        transport: new MemoryTransport(),
+        reconnect: false,
+        keepalive: { timeout: 20 }
+      });
+      monitored.once('linkDown', () => {
+        monitored.once('stateChange', (state) => {
+          expect(state).to.equal(Elk.ConnectionState.Disconnected);
+          done();
+        });
+      });
+      monitored.connect();
+    });
+  });
+
+  describe('reconnect', () => {
+    var panel: MemoryTransport;
+    var reconnecting: Elk;
+
+    beforeEach(function(done) {
+      panel = new MemoryTransport();
+      reconnecting = new Elk(undefined, undefined, {
+        transport: panel,
+        backoff: { initialDelay: 10, jitter: 0 }
+      });
+      reconnecting.once('connected', () => done());
+      reconnecting.connect();
+    });
+
+    afterEach(function() {
+      reconnecting.disconnect();
+    });
+
+    it('should back off and reconnect when the connection is lost', (done) => {
+      const states = [];
+      reconnecting.on('stateChange', (state) => states.push(Elk.ConnectionState[state]));
+      reconnecting.once('reconnecting', (attempt, delay) => {
+        expect(attempt).to.equal(1);
+        expect(delay).to.equal(10);
+      });
+      reconnecting.once('connected', () => {
+        expect(states).to.deep.equal(['BackingOff', 'Connecting', 'Ready']);
+        done();
+      });
+      panel.panel.destroy();
+    });
+    it('should not reconnect after disconnect() while backing off', (done) => {
+      reconnecting.once('reconnecting', () => {
+        reconnecting.once('stateChange', (state) => {
+          expect(state).to.equal(Elk.ConnectionState.Disconnected);
+          reconnecting.once('stateChange', () => done(new Error('should not have reconnected')));
+          setTimeout(() => done(), 50);
+        });
+        reconnecting.disconnect();
+      });
+      panel.panel.destroy();
+    });
+    it('should rebuild the connection when the link goes down', (done) => {
+      const monitored = new Elk(undefined, undefined, {
+        transport: new MemoryTransport(),
+        keepalive: { timeout: 20 },
+        backoff: { initialDelay: 10, jitter: 0 }
+      });
+      monitored.once('linkDown', () => {
+        monitored.once('connected', () => {
+          expect(monitored.state).to.equal(Elk.ConnectionState.Ready);
+          monitored.disconnect();
+          done();
+        });
+      });
+      monitored.connect();
+    });
+    it('should reject commands queued when the connection drops', () => {
+      const first = reconnecting.activateTask(1);
+      // Held back by the command interval until the connection has dropped
+      const second = reconnecting.activateTask(2);
+
+      panel.panel.once('data', () => panel.panel.destroy());
+      return first.then(() => second).then(
+        () => { throw new Error('should have been rejected'); },
+        (err) => expect(err).to.be.instanceOf(Elk.ElkConnectionError)
+      );
+    });
+    it('should not leave an unhandled rejection for ignored commands when the connection drops', (done) => {
+      const unhandled = [];
+      const onUnhandled = (reason) => unhandled.push(reason);
+      process.on('unhandledRejection', onUnhandled);
+
+      // Fire and forget, the second is still queued when the connection drops
+      reconnecting.speak('all clear');
+      reconnecting.arm(1, 1, '1234');
+      panel.panel.once('data', () => panel.panel.destroy());
+
+      setTimeout(() => {
+        process.removeListener('unhandledRejection', onUnhandled);
+        expect(unhandled.map(String)).to.deep.equal([]);
+        done();
+      }, 50);
+    });
+    it('should buffer commands while reconnecting and send them once ready', (done) => {
+      reconnecting.once('reconnecting', () => {
+        reconnecting.activateTask(1);
+        reconnecting.once('connected', () => {
+          panel.panel.once('data', (data) => {
+            expect(data.toString().substring(2, 7)).to.equal('tn001');
+            done();
+          });
+        });
+      });
+      panel.panel.destroy();
+    });
+  });
+
+  describe('backoff', () => {
+    it('should back off and give up when logins keep timing out', (done) => {
+      const delays = [];
+      const timingOut = new Elk(undefined, undefined, {
+        transport: new MemoryTransport(true),
+        authTimeout: 10,
+        backoff: { initialDelay: 5, jitter: 0, maxAttempts: 3 }
+      });
+
+      timingOut.on('reconnecting', (attempt, delay) => delays.push(delay));
+      timingOut.once('reconnectFailed', (attempts) => {
+        expect(attempts).to.equal(3);
+        expect(delays).to.deep.equal([5, 10, 20]);
+        done();
+      });
+      timingOut.connect();
+    });
+  });
+
+  describe('connect', () => {
+    it('state should be Ready', () => {
+      expect(elk.state).to.equal(Elk.ConnectionState.Ready);
+    });
+  });
+
+  describe('receive', () => {
+    it('should emit a parsed message by type', (done) => {
+      elk.once('ZC', (message) => {
+        expect(message.id).to.equal(2);
+        done();
+      });
+      transport.panel.write('0AZC002200CE\r\n');
+    });
+  });
+
+  describe('keypads', () => {
+    it('should keep the last key when the status changes', (done) => {
+      elk.once('keypadChange', () => {
+        elk.once('keypadChange', (status) => {
+          expect(elk.keypads.get(1)).to.equal(status);
+          expect(status.lastKey).to.equal('Stay');
+          expect(status.bypassCodeRequired).to.equal(true);
+          done();
+        });
+        transport.panel.write('19KC0100120000112300000000D\r\n');
+      });
+      transport.panel.write('19KC01171200000123000000006\r\n');
+    });
+  });
+
+  describe('virtual keypad', () => {
+    it('should press a function key', () => {
+      transport.panel.once('data', (data) => {
+        expect(data.toString().substring(2, 7)).to.equal('kf011');
+        transport.panel.write('11KF011123000000095\r\n');
+      });
+      return elk.keypad(1).pressFunctionKey(1).then((reply) => {
+        expect(reply.functionKey).to.equal('F1');
+      });
+    });
+    it('should leave keypad LCD data unparsed', (done) => {
+      elk.once('DK', (message) => {
+        expect(message.constructor).to.equal(ElkMessage);
+        expect(message.message).to.equal('19DK011Front Door Open 0086');
+        done();
+      });
+      transport.panel.write('19DK011Front Door Open 0086\r\n');
+    });
+    it('should reject a function key outside 1-6', () => {
+      return elk.keypad(1).pressFunctionKey(7).then(
+        () => { throw new Error('should have been rejected'); },
+        (err) => expect(err).to.be.instanceOf(Elk.ElkValidationError)
+      );
+    });
+  });
+
+  describe('alarm memory', () => {
+    it('should record the tripped zones and clear them on disarm', (done) => {
+      transport.panel.on('data', (data) => {
+        const command = data.toString().substring(2, 4);
+        if (command === 'zp') {
+          transport.panel.write('D6ZP111211111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111100AB\r\n');
+        } else if (command === 'az') {
+          transport.panel.write('D6AZ00100006000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000084\r\n');
+        }
+      });
+      elk.alarmMemory.once('zoneTripped', () => {
+        const first = elk.alarmMemory.firstTripped(1);
+        expect(first.zoneId).to.equal(3);
+        expect(first.alarm).to.equal('Burglar Entry/Exit 1');
+        expect(first.time).to.be.instanceOf(Date);
+
+        elk.alarmMemory.once('cleared', () => {
+          expect(elk.alarmMemory.zones.length).to.equal(0);
+          done();
+        });
+        transport.panel.write('1EAS0000000010000000000000000015\r\n');
+      });
+      transport.panel.write('1EAS100000004000000060000000000B\r\n');
+    });
+
+    // Alarm By Zone Reply with zones in alarm as Burglar Entry/Exit 1
+    const alarmByZone = (zones: number[]) => {
+      const body = Array.from({ length: 208 }, (_, i) => zones.indexOf(i + 1) === -1 ? '0' : '1').join('');
+      return `${new ElkMessage(`AZ${body}`, null).message}\r\n`;
+    };
+    const zoneChange = (id: number, status: string) =>
+      `${new ElkMessage(`ZC${String(id).padStart(3, '0')}${status}`, null).message}\r\n`;
+
+    it('should order zones reported together by when they were violated', (done) => {
+      transport.panel.on('data', (data) => {
+        const command = data.toString().substring(2, 4);
+        if (command === 'zp') {
+          transport.panel.write('D6ZP111211111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111100AB\r\n');
+        } else if (command === 'az') {
+          transport.panel.write(alarmByZone([3, 7]));
+        }
+      });
+      const tripped = [];
+      elk.alarmMemory.on('zoneTripped', (zone) => {
+        tripped.push(zone.zoneId);
+        if (tripped.length === 2) {
+          expect(tripped).to.deep.equal([7, 3]);
+          expect(elk.alarmMemory.zones.map((zone) => zone.zoneId)).to.deep.equal([7, 3]);
+          expect(elk.alarmMemory.firstTripped().zoneId).to.equal(7);
+          done();
+        }
+      });
+
+      // Zone 7 is violated, then zone 3, before the alarm is reported
+      transport.panel.write(zoneChange(7, '9'));
+      setTimeout(() => {
+        transport.panel.write(zoneChange(3, '9'));
+        setTimeout(() => transport.panel.write('1EAS100000004000000060000000000B\r\n'), 5);
+      }, 5);
+    });
+    it('should record a zone that trips while its area is already in alarm', (done) => {
+      let zones = [7];
+      transport.panel.on('data', (data) => {
+        const command = data.toString().substring(2, 4);
+        if (command === 'zp') {
+          transport.panel.write('D6ZP111211111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111111100AB\r\n');
+        } else if (command === 'az') {
+          transport.panel.write(alarmByZone(zones));
+        }
+      });
+      elk.alarmMemory.once('zoneTripped', (first) => {
+        expect(first.zoneId).to.equal(7);
+        elk.alarmMemory.once('zoneTripped', (second) => {
+          expect(second.zoneId).to.equal(3);
+          expect(elk.alarmMemory.firstTripped(1).zoneId).to.equal(7);
+          done();
+        });
+        zones = [3, 7];
+        transport.panel.write(zoneChange(3, '9'));
+      });
+      transport.panel.write('1EAS100000004000000060000000000B\r\n');
+    });
+  });
+
+  describe('counters', () => {
+    it('should write the counter value', () => {
+      transport.panel.once('data', (data) => {
+        expect(data.toString().substring(2, 11)).to.equal('cx0100123');
+        transport.panel.write('0DCV0100123003C\r\n');
+      });
+      return elk.setCounter(1, 123).then((counter) => expect(counter.value).to.equal(123));
+    });
+    it('should reject a value outside 0-65535', () => {
+      return elk.setCounter(1, 65536).then(
+        () => { throw new Error('should have been rejected'); },
+        (err) => expect(err.argument).to.equal('value')
+      );
+    });
+    it('should reject a counter id that isn\'t a whole number', () => {
+      const rejected = (promise: Promise<any>) => promise.then(
+        () => { throw new Error('should have been rejected'); },
+        (err) => {
+          expect(err).to.be.instanceOf(Elk.ElkValidationError);
+          expect(err.argument).to.equal('id');
+        }
+      );
+
+      return Promise.all([
+        rejected(elk.requestCounter(1.5)),
+        rejected(elk.setCounter(1.5, 123))
+      ]);
+    });
+    it('should combine counter values with their names', () => {
+      const replies = {
+        sd10001: '1BSD10001Visitors        0041',
+        sd10002: '1BSD10002Garage Opens    00B7',
+        sd10003: '1BSD10000                00A5',
+        cv01: '0DCV0100123003C',
+        cv02: '0DCV0200007003A'
+      };
+      transport.panel.on('data', (data) => {
+        const frame = data.toString();
+        const command = frame.substring(2, frame.length - 6);
+        transport.panel.write(`${replies[command]}\r\n`);
+      });
+      return elk.getCounters().then((counters) => {
+        expect(counters.length).to.equal(2);
+        expect(counters[0]).to.deep.include({ id: 1, name: 'Visitors', value: 123 });
+        expect(counters[1]).to.deep.include({ id: 2, name: 'Garage Opens', value: 7 });
+      });
+    });
+  });
+
+  describe('custom settings', () => {
+    it('should label a custom value with its name', () => {
+      const replies = {
+        cr02: '0ECR020030010010',
+        sd09002: '1BSD09003Wake Up         000D'
+      };
+      transport.panel.on('data', (data) => {
+        const frame = data.toString();
+        transport.panel.write(`${replies[frame.substring(2, frame.length - 6)]}\r\n`);
+      });
+      return elk.requestCustomValue(2).then((setting) => {
+        expect(setting.value).to.equal(300);
+        expect(setting.name).to.equal(null);
+      });
+    });
+    it('should label all custom values with their names', () => {
+      const replies = {
+        sd09001: '1BSD09001Entry Delay     00DB',
+        sd09002: '1BSD09003Wake Up         000D',
+        sd09004: '1BSD09000                009D',
+        cp: '80CR0000012000300101822200000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000AD'
+      };
+      transport.panel.on('data', (data) => {
+        const frame = data.toString();
+        transport.panel.write(`${replies[frame.substring(2, frame.length - 6)]}\r\n`);
+      });
+      return elk.requestAllCustomValues().then((settings) => {
+        expect(settings[0].name).to.equal('Entry Delay');
+        expect(settings[1].name).to.equal(null);
+        expect(settings[2].name).to.equal('Wake Up');
+      });
+    });
+    it('should encode a time of day', (done) => {
+      transport.panel.once('data', (data) => {
+        expect(data.toString().substring(2, 11)).to.equal('cw0301822');
+        done();
+      });
+      elk.setCustomValue(3, { hour: 7, minute: 30 });
+    });
+    it('should reject a custom setting id that isn\'t a whole number', () => {
+      const rejected = (promise: Promise<any>) => promise.then(
+        () => { throw new Error('should have been rejected'); },
+        (err) => {
+          expect(err).to.be.instanceOf(Elk.ElkValidationError);
+          expect(err.argument).to.equal('id');
+        }
+      );
+
+      return Promise.all([
+        rejected(elk.requestCustomValue(2.5)),
+        rejected(elk.setCustomValue(2.5, 300))
+      ]);
+    });
+  });
+
+  describe('clock', () => {
+    it('should write the date and time', () => {
+      transport.panel.once('data', (data) => {
+        expect(data.toString().substring(2, 17)).to.equal('rw0059107251221');
+        transport.panel.write('16RR00591072512211000071\r\n');
+      });
+      return elk.setClock(new Date(2021, 11, 25, 10, 59, 0)).then((clock) => {
+        expect(clock.date.getFullYear()).to.equal(2021);
+      });
+    });
+    it('should rewrite a drifted clock when syncing', (done) => {
+      const panel = new MemoryTransport();
+      const synced = new Elk(undefined, undefined, { transport: panel, reconnect: false, clockSync: {} });
+
+      synced.once('clockSynced', (sync) => {
+        expect(sync.previous.getFullYear()).to.equal(2021);
+        expect(sync.correction).to.be.greaterThan(0);
+        synced.disconnect();
+        done();
+      });
+      synced.connect();
+      panel.panel.on('data', (data) => {
+        const frame = data.toString();
+        if (frame.substring(2, 4) === 'rr') {
+          panel.panel.write('16RR00591072512211000071\r\n');
+        } else if (frame.substring(2, 4) === 'rw') {
+          // Echo the written time back, as the panel does
+          panel.panel.write(`${new ElkMessage(`RR${frame.substring(4, 17)}100`, null).message}\r\n`);
+        }
+      });
+    });
+  });
+
+  describe('troubles', () => {
+    it('should emit troubleRaised and troubleCleared as troubles change', (done) => {
+      const raised = [];
+      const cleared = [];
+      elk.on('troubleRaised', (trouble) => raised.push(trouble.name));
+      elk.on('troubleCleared', (trouble) => cleared.push(trouble.name));
+
+      elk.once('SS', () => {
+        elk.once('SS', () => {
+          expect(raised).to.deep.equal(['AC Fail', 'Box Tamper', 'Fire', 'Low Battery Control']);
+          expect(cleared).to.deep.equal(['AC Fail', 'Fire']);
+          expect(elk.troubles.length).to.equal(2);
+          done();
+        });
+        transport.panel.write('28SS0500100000000000000000000000000000002A\r\n');
+      });
+      transport.panel.write('28SS150000000000000000000000000000000<001E\r\n');
+    });
+    it('should read zone numbers of 80 and above', (done) => {
+      elk.once('troubleRaised', (trouble) => {
+        expect(trouble.name).to.equal('Box Tamper');
+        expect(trouble.zoneId).to.equal(150);
+        done();
+      });
+      // Zone 150 is sent as the byte 198
+      const body = `0${String.fromCharCode(48 + 150)}${'0'.repeat(32)}`;
+      transport.panel.write(Buffer.from(`${new ElkMessage(`SS${body}`, null).message}\r\n`, 'latin1'));
+    });
+  });
+
+  describe('firmware version', () => {
+    beforeEach(function() {
+      transport.panel.once('data', () => transport.panel.write('36VN0402050102100000000000000000000000000000000000000084\r\n'));
+      return elk.requestVersion();
+    });
+
+    it('should keep the firmware version', () => {
+      expect(elk.version.m1Version.toString()).to.equal('4.2.5');
+    });
+    it('should refuse commands the firmware does not support', () => {
+      return elk.requestTroubleStatus().then(
+        () => { throw new Error('should have been rejected'); },
+        (err) => {
+          expect(err).to.be.instanceOf(Elk.ElkCapabilityError);
+          expect(err.requiredVersion).to.equal('4.5.0');
+        }
+      );
+    });
+    it('should parse replies with the parser for the firmware', (done) => {
+      elk.once('KC', (message) => {
+        expect(message.key).to.equal('Stay');
+        expect(message.chimeModes.length).to.equal(0);
+        done();
+      });
+      transport.panel.write('19KC01171200000123000000006\r\n');
+    });
+  });
+
+  describe('lighting', () => {
+    it('should address lights by house code and unit', (done) => {
+      transport.panel.once('data', (data) => {
+        expect(data.toString().substring(2, 15)).to.equal('pcB0109500010');
+        done();
+      });
+      elk.setLightLevel(17, 50, 10);
+    });
+    it('should reject a light id that isn\'t a whole number', () => {
+      const rejected = (promise: Promise<any>) => promise.then(
+        () => { throw new Error('should have been rejected'); },
+        (err) => {
+          expect(err).to.be.instanceOf(Elk.ElkValidationError);
+          expect(err.argument).to.equal('id');
+        }
+      );
+
+      return Promise.all([
+        rejected(elk.turnLightOn(16.5)),
+        rejected(elk.requestLightLevel(16.5))
+      ]);
+    });
+    it('should cache light levels and emit changes', (done) => {
+      elk.lights.once('change', (id, level, previous) => {
+        expect(id).to.equal(17);
+        expect(level).to.equal(50);
+        expect(previous).to.equal(undefined);
+        expect(elk.lights.isOn(17)).to.equal(true);
+        done();
+      });
+      transport.panel.write('0BPCB01500093\r\n');
+    });
+    it('should read light levels of 80 and above from a lighting status report', (done) => {
+      // Level 99 is sent as the byte 147
+      const levels = String.fromCharCode(48 + 99) + '0'.repeat(63);
+      elk.once('PS', () => {
+        expect(elk.lights.get(1)).to.equal(99);
+        done();
+      });
+      transport.panel.write(Buffer.from(`${new ElkMessage(`PS0${levels}`, null).message}\r\n`, 'latin1'));
+    });
+  });
+
+  describe('user codes', () => {
+    it('should change a user code', () => {
+      transport.panel.once('data', (data) => {
+        expect(data.toString().substring(2, 21)).to.equal('cu00300123400567805');
+        transport.panel.write('09CU003000C\r\n');
+      });
+      return elk.changeUserCode(3, '1234', '5678', [1, 3]).then((reply) => {
+        expect(reply.userId).to.equal(3);
+      });
+    });
+    it('should reject a duplicate code without revealing it', () => {
+      transport.panel.once('data', () => transport.panel.write('09CU2550003\r\n'));
+      return elk.changeUserCode(3, '1234', '5678', [1]).then(
+        () => { throw new Error('should have been rejected'); },
+        (err) => {
+          expect(err).to.be.instanceOf(Elk.ElkValidationError);
+          expect(err.message).to.not.contain('5678');
+        }
+      );
+    });
+    it('should not reveal codes when the reply times out', () => {
+      return elk.requestUserCodeAreas('1234', 20).then(
+        () => { throw new Error('should have been rejected'); },
+        (err) => {
+          expect(err.command).to.equal('ua');
+          expect(err.message).to.not.contain('1234');
+        }
+      );
+    });
+  });
+
+  describe('thermostats', () => {
+    it('should set the hold with a named setter', (done) => {
+      transport.panel.once('data', (data) => {
+        expect(data.toString().substring(2, 9)).to.equal('ts01011');
+        done();
+      });
+      elk.thermostat(1).setHold(true);
+    });
+    it('should reject bad input to the named setters', () => {
+      const thermostat = elk.thermostat(1);
+      const rejected = (promise: Promise<void>, argument: string) => promise.then(
+        () => { throw new Error('should have been rejected'); },
+        (err) => {
+          expect(err).to.be.instanceOf(Elk.ElkValidationError);
+          expect(err.argument).to.equal(argument);
+        }
+      );
+
+      return Promise.all([
+        rejected(thermostat.setHeatSetPoint(72.5), 'value'),
+        rejected(thermostat.setCoolSetPoint(NaN), 'value'),
+        rejected(thermostat.setMode(undefined), 'value'),
+        rejected(thermostat.setHold(undefined), 'hold'),
+        rejected(thermostat.setFan('off' as any), 'fan')
+      ]);
+    });
+    it('should reject element 3', () => {
+      return elk.setThermostat(1, 1, 3).then(
+        () => { throw new Error('should have been rejected'); },
+        (err) => expect(err.argument).to.equal('element')
+      );
+    });
+    it('should update the thermostat state from TR', (done) => {
+      const thermostat = elk.thermostat(1);
+      thermostat.once('change', (state) => {
+        expect(thermostat.state).to.equal(state);
+        expect(elk.thermostats.get(1).hold).to.equal(true);
+        done();
+      });
+      transport.panel.write('13TR012107268750000FF\r\n');
+    });
+    it('should request the thermostat state', () => {
+      transport.panel.once('data', (data) => {
+        expect(data.toString().substring(2, 6)).to.equal('tr01');
+        transport.panel.write('13TR012107268750000FF\r\n');
+      });
+      return elk.requestThermostat(1).then((reply) => expect(reply.temperature).to.equal(72));
+    });
+    it('should reject a thermostat id that isn\'t a whole number', () => {
+      expect(() => elk.thermostat(1.5)).to.throw(Elk.ElkValidationError);
+      return elk.requestThermostat(1.5).then(
+        () => { throw new Error('should have been rejected'); },
+        (err) => {
+          expect(err).to.be.instanceOf(Elk.ElkValidationError);
+          expect(err.argument).to.equal('id');
+        }
+      );
+    });
+  });
+
+  describe('temperatures', () => {
+    const reply = (frame: string, panel: MemoryTransport['panel']) => {
+      if (frame.substring(2, 7) === 'st001') {
+        panel.write(`${new ElkMessage('ST001030', null).message}\r\n`);
+      } else if (frame.substring(2, 9) === 'sd00001') {
+        panel.write(`${new ElkMessage(`SD00001${'Garage'.padEnd(16)}`, null).message}\r\n`);
+      }
+    };
+
+    it('should request a named temperature', () => {
+      transport.panel.on('data', (data) => reply(data.toString(), transport.panel));
+      return elk.requestTemperature(Elk.TemperatureGroup.Zone, 1).then((reading) => {
+        expect(reading.temperature).to.equal(-30);
+        expect(reading.name).to.equal('Garage');
+      });
+    });
+    it('should reject a sensor id that isn\'t a whole number', () => {
+      return elk.requestTemperature(Elk.TemperatureGroup.Zone, 1.5).then(
+        () => { throw new Error('should have been rejected'); },
+        (err) => {
+          expect(err).to.be.instanceOf(Elk.ElkValidationError);
+          expect(err.argument).to.equal('id');
+        }
+      );
+    });
+    it('should request all named temperatures, including thermostats', () => {
+      const replies = {
+        lw: new ElkMessage(`LW108${'000'.repeat(31)}`, null).message,
+        sd03001: new ElkMessage(`SD03001${'Kitchen'.padEnd(16)}`, null).message,
+        sd11001: new ElkMessage(`SD11001${'Hall'.padEnd(16)}`, null).message,
+        sd11002: new ElkMessage(`SD11000${''.padEnd(16)}`, null).message,
+        st201: new ElkMessage('ST201072', null).message
+      };
+      transport.panel.on('data', (data) => {
+        const frame = data.toString();
+        transport.panel.write(`${replies[frame.substring(2, frame.length - 6)]}\r\n`);
+      });
+
+      return elk.requestAllTemperatures().then((readings) => {
+        expect(readings.length).to.equal(2);
+        expect(readings[0]).to.deep.include({ group: 'Keypad', id: 1, temperature: 68, name: 'Kitchen' });
+        expect(readings[1]).to.deep.include({ group: 'Thermostat', id: 1, temperature: 72, name: 'Hall' });
+      });
+    });
+    it('should emit temperatureAlert when a sensor passes a threshold', (done) => {
+      const panel = new MemoryTransport();
+      const polled = new Elk(undefined, undefined, {
+        transport: panel,
+        reconnect: false,
+        temperatureAlerts: { sensors: [{ group: Elk.TemperatureGroup.Zone, id: 1, low: 35 }] }
+      });
+
+      polled.once('temperatureAlert', (alert) => {
+        expect(alert.alert).to.equal('low');
+        expect(alert.reading.name).to.equal('Garage');
+        polled.disconnect();
+        done();
+      });
+      polled.connect();
+      panel.panel.on('data', (data) => reply(data.toString(), panel.panel));
+    });
+  });
+
+  describe('event log', () => {
+    it('should download a range of entries with progress', () => {
+      const progress = [];
+      elk.on('logProgress', ({ received, total }) => progress.push(`${received}/${total}`));
+      transport.panel.on('data', (data) => {
+        const frame = data.toString();
+        if (frame.substring(2, 4) === 'ld') {
+          transport.panel.write(`${new ElkMessage(`LD1193102119450607${frame.substring(4, 7)}505`, null).message}\r\n`);
+        }
+      });
+
+      return elk.downloadLog({ from: 1, to: 2 }).then((entries) => {
+        expect(entries.map((entry) => entry.logIndex)).to.deep.equal(['001', '002']);
+        expect(entries[0].date.getFullYear()).to.equal(2005);
+        expect(progress).to.deep.equal(['1/2', '2/2']);
+      });
+    });
+    it('should write a log entry', (done) => {
+      transport.panel.once('data', (data) => {
+        expect(data.toString().substring(2, 12)).to.equal('le11930121');
+        done();
+      });
+      elk.writeLogEntry(1193, 12, 1);
+    });
+  });
+
+  describe('alarm reports', () => {
+    it('should acknowledge and emit a report once', (done) => {
+      const reports = [];
+      const acks = [];
+      elk.on('alarmReport', (report) => reports.push(report));
+      transport.panel.on('data', (data) => {
+        acks.push(data.toString().substring(2, 4));
+        if (acks.length === 2) {
+          expect(acks).to.deep.equal(['ar', 'ar']);
+          expect(reports.length).to.equal(1);
+          expect(reports[0].eventCode).to.equal(130);
+          done();
+        }
+      });
+      // The panel resends a report whose acknowledgement it missed
+      transport.panel.write('15AR01234511300100500BD\r\n');
+      transport.panel.write('15AR01234511300100500BD\r\n');
+    });
+    it('should leave the acknowledgement to the caller when configured', (done) => {
+      const panel = new MemoryTransport();
+      const manual = new Elk(undefined, undefined, {
+        transport: panel,
+        reconnect: false,
+        alarmReports: { autoAcknowledge: false }
+      });
+
+      manual.once('connected', () => {
+        panel.panel.on('data', (data) => {
+          expect(data.toString().substring(2, 4)).to.equal('ar');
+          manual.disconnect();
+          done();
+        });
+        panel.panel.write('15AR01234511300100500BD\r\n');
+      });
+      manual.once('alarmReport', () => setTimeout(() => manual.acknowledgeAlarmReport(), 20));
+      manual.connect();
+    });
+  });
+
+  describe('send', () => {
+    it('should write the framed command', (done) => {
+      transport.panel.once('data', (data) => {
+        expect(data.toString()).to.equal('09tn00100C4\r\n');
+        done();
+      });
+      elk.activateTask(1);
+    });
+  });
+
+  describe('request', () => {
+    it('should resolve concurrent text description requests with their own reply', () => {
+      const area1 = elk.requestTextDescription(1, TextDescriptionType.Area);
+      const zone1 = elk.requestTextDescription(1, TextDescriptionType.Zone);
+
+      transport.panel.write('1BSD00001Front Door      0028\r\n');
+      transport.panel.write('1BSD01001Main House      003B\r\n');
+
+      return Promise.all([area1, zone1]).then(([area, zone]) => {
+        expect(area.description).to.equal('Main House');
+        expect(zone.description).to.equal('Front Door');
+      });
+    });
+    it('should settle a request when a listener throws, and emit the exception as an error', () => {
+      const errors = [];
+      elk.on('error', (err) => errors.push(err));
+      elk.on('*', () => { throw new Error('listener failed'); });
+
+      const zone1 = elk.requestTextDescription(1, TextDescriptionType.Zone);
+      transport.panel.write('1BSD00001Front Door      0028\r\n');
+
+      return zone1.then((zone) => {
+        expect(zone.description).to.equal('Front Door');
+        expect(errors.map((err) => err.message)).to.deep.equal(['listener failed']);
+      });
+    });
+  });
+
+  describe('errors', () => {
+    it('should reject with ElkTimeoutError when the reply does not arrive', () => {
+      return elk.requestArmingStatus(20).then(
+        () => { throw new Error('should have been rejected'); },
+        (err) => {
+          expect(err).to.be.instanceOf(Elk.ElkTimeoutError);
+          expect(err.command).to.equal('as');
+          expect(err.expectedType).to.equal('AS');
+        }
+      );
+    });
+    it('should reject bad thermostat arguments with ElkValidationError', () => {
+      return elk.setThermostat(1, 100, 4).then(
+        () => { throw new Error('should have been rejected'); },
+        (err) => {
+          expect(err).to.be.instanceOf(Elk.ElkValidationError);
+          expect(err.argument).to.equal('value');
+        }
+      );
+    });
+    it('should reject a bypass without a zone with ElkValidationError', () => {
+      return elk.bypassZone(null, 1, '1234').then(
+        () => { throw new Error('should have been rejected'); },
+        (err) => expect(err.argument).to.equal('zoneId')
+      );
+    });
+    it('should reject bypass arguments out of range with ElkValidationError', () => {
+      const rejected = (promise: Promise<void>, argument: string) => promise.then(
+        () => { throw new Error('should have been rejected'); },
+        (err) => {
+          expect(err).to.be.instanceOf(Elk.ElkValidationError);
+          expect(err.argument).to.equal(argument);
+        }
+      );
+
+      return Promise.all([
+        rejected(elk.bypassZone(0, 1, '1234'), 'zoneId'),
+        rejected(elk.bypassZone(999, 1, '1234'), 'zoneId'),
+        rejected(elk.bypassZone(1.5, 1, '1234'), 'zoneId'),
+        rejected(elk.bypassZone(1, 9, '1234'), 'areaId'),
+        rejected(elk.bypassZone(1, 1, '12a4'), 'keypadCode'),
+        rejected(elk.bypassZone(1, 1, '12345'), 'keypadCode')
+      ]);
+    });
+    it('should emit frameError with ElkChecksumError for a corrupt frame', (done) => {
+      elk.once('frameError', (frame, err) => {
+        expect(err).to.be.instanceOf(Elk.ElkChecksumError);
+        expect(err.frame).to.equal('06AT00A6');
+        done();
+      });
+      transport.panel.write('06AT00A6\r\n');
+    });
+    it('should not parse a known message type with a bad checksum', (done) => {
+      elk.once('ZC', () => done(new Error('should not have been parsed')));
+      elk.once('frameError', (frame, err) => {
+        expect(err).to.be.instanceOf(Elk.ElkChecksumError);
+        expect(frame).to.equal('0AZC002200FF');
+        done();
+      });
+      transport.panel.write('0AZC002200FF\r\n');
+    });
+    it('should mask the code of a corrupt UA frame', (done) => {
+      elk.once('frameError', (frame, err) => {
+        expect(frame).to.equal('0EUA******0500FF');
+        expect(err.frame).to.equal('0EUA******0500FF');
+        expect(err.message).to.not.contain('1234');
+        done();
+      });
+      transport.panel.write('0EUA0012340500FF\r\n');
+    });
+    it('should mask the code of a UA frame that could not be framed', (done) => {
+      elk.once('frameError', (raw) => {
+        expect(raw).to.equal('FFUA******050006');
+        done();
+      });
+      transport.panel.write('FFUA001234050006\r\n');
+    });
+  });
+
+  describe('request options', () => {
+    it('should reject with ElkAbortError when aborted', () => {
+      const controller = new AbortController();
+      const pending = elk.requestArmingStatus({ signal: controller.signal });
+      controller.abort();
+      return pending.then(
+        () => { throw new Error('should have been rejected'); },
+        (err) => expect(err).to.be.instanceOf(Elk.ElkAbortError)
+      );
+    });
+    it('should resend the request when the reply times out', () => {
+      let sent = 0;
+      transport.panel.on('data', () => {
+        // Ignore the first request, like a busy panel
+        if (++sent === 2) {
+          transport.panel.write('1EAS100000004000000030000000000E\r\n');
+        }
+      });
+      return elk.requestArmingStatus({ timeout: 20, retries: 2, retryBackoff: { initialDelay: 1 } }).then((report) => {
+        expect(sent).to.equal(2);
+        expect(report.areas[0].armStatus).to.equal('Armed Away');
+      });
+    });
+    it('should hand back partial text descriptions when aborted', () => {
+      const controller = new AbortController();
+      transport.panel.once('data', () => {
+        transport.panel.write('1BSD05001Task One        00CB\r\n');
+        transport.panel.once('data', () => controller.abort());
+      });
+      return elk.requestTextDescriptionAll(TextDescriptionType.Task, { signal: controller.signal }).then(
+        () => { throw new Error('should have been rejected'); },
+        (err) => {
+          expect(err).to.be.instanceOf(Elk.ElkAbortError);
+          expect(err.results.length).to.equal(1);
+          expect(err.results[0].description).to.equal('Task One');
+        }
+      );
+    });
+  });
+
+  describe('keepalive', () => {
+    it('should answer AT with at', (done) => {
+      transport.panel.once('data', (data) => {
+        expect(data.toString().substring(2, 4)).to.equal('at');
+        done();
+      });
+      transport.panel.write('06AT00A5\r\n');
+    });
+    it('should track when the last frame arrived', (done) => {
+      elk.once('ZC', () => {
+        expect(elk.lastFrameAt).to.be.instanceOf(Date);
+        done();
+      });
+      transport.panel.write('0AZC002200CE\r\n');
+    });
+  });
+
+  describe('disconnect', () => {
+    it('state should be Disconnected', (done) => {
+      elk.once('stateChange', (state) => {
+        expect(state).to.equal(Elk.ConnectionState.Disconnected);
+        done();
+      });
+      elk.disconnect();
+    });
+  });
+});
+
+describe('Elk login', () => {
+  var transport: MemoryTransport;
+  var elk: Elk;
+
+  // Answers the M1XEP login prompts the way the panel would
+  const respond = (lines: string[]) => {
+    transport.panel.on('data', () => {
+      const line = lines.shift();
+      if (line !== undefined) {
+        transport.panel.write(line);
+      }
+    });
+    transport.panel.write('Username:');
+  };
+
+  beforeEach(function() {
+    transport = new MemoryTransport(true);
+    elk = new Elk(undefined, undefined, {
+      transport,
+      reconnect: false,
+      userName: 'user',
+      password: 'secret',
+      authTimeout: 50
+    });
+  });
+
+  afterEach(function() {
+    elk.disconnect();
+  });
+
+  it('should emit connected once, after the login', (done) => {
+    let connected = 0;
+    elk.on('connected', () => connected++);
+    elk.once('ready', () => {
+      setTimeout(() => {
+        expect(connected).to.equal(1);
+        expect(elk.state).to.equal(Elk.ConnectionState.Ready);
+        done();
+      }, 10);
+    });
+    elk.on('stateChange', (state) => {
+      if (state === Elk.ConnectionState.Authenticating) {
+        respond(['Password:', '\r\nElk-M1XEP: Login successful.\r\n']);
+      }
+    });
+    elk.connect();
+  });
+
+  it('should emit authFailed when the login is rejected', (done) => {
+    elk.once('authFailed', (err) => {
+      expect(err).to.be.instanceOf(Elk.ElkAuthError);
+      expect(err.reason).to.equal('rejected');
+      done();
+    });
+    elk.on('stateChange', (state) => {
+      if (state === Elk.ConnectionState.Authenticating) {
+        respond(['Password:', 'Username:']);
+      }
+    });
+    elk.connect();
+  });
+
+  it('should emit authFailed when the login times out', (done) => {
+    elk.once('authFailed', (err) => {
+      expect(err.reason).to.equal('timeout');
+      done();
+    });
+    elk.connect();
+  });
+});
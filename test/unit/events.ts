@@ -0,0 +1,42 @@
+import { decodeEvent } from '../../src/lib/events';
+
+import { expect } from 'chai';
+
+describe('decodeEvent', () => {
+  it('4012 with data 1 should be zone 12 violated', () => {
+    expect(decodeEvent(4012, 1)).to.deep.equal({
+      category: 'zone',
+      code: 4012,
+      subject: { kind: 'zone', id: 12 },
+      state: 'violated',
+      label: 'Zone 12 violated'
+    });
+  });
+  it('5003 should be zone 3, not zone 1003', () => {
+    expect(decodeEvent(5003, 1).subject).to.deep.equal({ kind: 'zone', id: 3 });
+  });
+  it('7208 with data 0 should be output 208 off', () => {
+    const event = decodeEvent(7208, 0);
+    expect(event.subject).to.deep.equal({ kind: 'output', id: 208 });
+    expect(event.state).to.equal('off');
+  });
+  it('6005 without data should have no state', () => {
+    expect(decodeEvent(6005).state).to.equal(null);
+  });
+  it('1193 should be area 3 armed', () => {
+    const event = decodeEvent(1193);
+    expect(event.subject).to.deep.equal({ kind: 'area', id: 3 });
+    expect(event.state).to.equal('armed');
+  });
+  it('1174 with data 2 should be disarmed by user 2', () => {
+    const event = decodeEvent(1174, 2);
+    expect(event.subject).to.deep.equal({ kind: 'user', id: 2 });
+    expect(event.state).to.equal('disarmed');
+  });
+  it('3001 should be a function key', () => {
+    expect(decodeEvent(3001).category).to.equal('functionKey');
+  });
+  it('9999 should be unknown', () => {
+    expect(decodeEvent(9999).label).to.equal('Unknown event 9999');
+  });
+});
@@ -0,0 +1,57 @@
+import { ElkFramer, isCompleteFrame } from '../../src/lib/framer';
+
+import { expect } from 'chai';
+
+describe('isCompleteFrame', () => {
+  it('should accept a frame matching its length prefix', () => {
+    expect(isCompleteFrame('0AZC002200CE')).to.equal(true);
+  });
+  it('should reject a truncated frame', () => {
+    expect(isCompleteFrame('0AZC002200')).to.equal(false);
+  });
+  it('should reject a frame without a hex length prefix', () => {
+    expect(isCompleteFrame('Username:')).to.equal(false);
+  });
+});
+
+describe('ElkFramer', () => {
+  var framer: ElkFramer;
+  var frames: string[];
+  var errors: string[];
+
+  beforeEach(function() {
+    framer = new ElkFramer();
+    frames = [];
+    errors = [];
+    framer.on('frame', (frame) => frames.push(frame));
+    framer.on('frameError', (raw) => errors.push(raw));
+  });
+
+  describe('push', () => {
+    it('should join a frame split across chunks', () => {
+      framer.push('0AZC0022');
+      framer.push('00CE\r\n');
+      expect(frames).to.deep.equal(['0AZC002200CE']);
+    });
+    it('should split coalesced frames', () => {
+      framer.push('0AZC002200CE\r\n0ACC003100E5\r\n0AZC00');
+      expect(frames).to.deep.equal(['0AZC002200CE', '0ACC003100E5']);
+    });
+    it('should resync after junk before a frame', () => {
+      framer.push('\u0000**0AZC002200CE\r\n');
+      expect(frames).to.deep.equal(['0AZC002200CE']);
+      expect(errors).to.deep.equal(['\u0000**']);
+    });
+    it('should report a frame with the wrong length', () => {
+      framer.push('0AZC00220\r\n');
+      expect(frames).to.deep.equal([]);
+      expect(errors).to.deep.equal(['0AZC00220']);
+    });
+    it('should drop data that never ends a line', () => {
+      framer = new ElkFramer(16);
+      framer.on('frameError', (raw) => errors.push(raw));
+      framer.push('01234567890123456789');
+      expect(errors.length).to.equal(1);
+    });
+  });
+});
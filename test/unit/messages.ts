@@ -1,12 +1,28 @@
 /// <reference path="../../typings/globals/mocha/index.d.ts" />
 import {
+  AlarmByZoneReport,
+  AlarmReport,
   ArmingStatusReport,
+  CounterValue,
+  CustomValueReport,
   EntryExitTime,
+  EthernetTest,
+  KeypadFunctionKeypress,
+  KeypadKeyChangeUpdate,
+  LightingChangeUpdate,
+  LightingPollResponse,
+  LightingStatusReport,
   LogDataUpdate,
   OutputChangeUpdate,
   OutputStatusReport,
+  RealTimeClockData,
+  SystemTroubleStatus,
+  TemperatureData,
   TemperatureReply,
   ThermostatReply,
+  UserCodeAreasReport,
+  UserCodeChangeReply,
+  VersionReport,
   TextStringDescriptionReport,
   ZoneBypass,
   ZoneDefinitionReport,
@@ -17,6 +33,54 @@ import {
 
 import { expect } from 'chai';
 
+describe('AlarmByZoneReport', () => {
+  var model: AlarmByZoneReport;
+
+  before(function() {
+    model = new AlarmByZoneReport('D6AZ00100006000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000084');
+  });
+
+  describe('parse', () => {
+    it('should list the 2 zones in alarm', () => {
+      expect(model.zones.length).to.equal(2);
+    });
+    it('zone 3 alarm should be equal to \'Burglar Entry/Exit 1\'', () => {
+      expect(model.zones[0].id).to.equal(3);
+      expect(model.zones[0].definition).to.equal('Burglar Entry/Exit 1');
+    });
+    it('zone 8 alarm should be equal to \'Burglar Interior Night\'', () => {
+      expect(model.zones[1].id).to.equal(8);
+      expect(model.zones[1].definition).to.equal('Burglar Interior Night');
+    });
+  });
+});
+
+describe('AlarmReport', () => {
+  var model: AlarmReport;
+
+  before(function() {
+    model = new AlarmReport('15AR01234511300100500BD');
+  });
+
+  describe('parse', () => {
+    it('account should be equal to 012345', () => {
+      expect(model.account).to.equal('012345');
+    });
+    it('qualifier should be equal to new', () => {
+      expect(model.qualifier).to.equal('new');
+    });
+    it('event code should be equal to 130', () => {
+      expect(model.eventCode).to.equal(130);
+    });
+    it('partition should be equal to 1', () => {
+      expect(model.partition).to.equal(1);
+    });
+    it('zone should be equal to 5', () => {
+      expect(model.id).to.equal(5);
+    });
+  });
+});
+
 describe('ArmingStatusReport', () => {
   var model: ArmingStatusReport;
 
@@ -40,6 +104,49 @@ describe('ArmingStatusReport', () => {
   });
 });
 
+describe('CounterValue', () => {
+  var model: CounterValue;
+
+  before(function() {
+    model = new CounterValue('0DCV0100123003C');
+  });
+
+  describe('parse', () => {
+    it('counter id should be equal to 1', () => {
+      expect(model.id).to.equal(1);
+    });
+    it('value should be equal to 123', () => {
+      expect(model.value).to.equal(123);
+    });
+  });
+});
+
+describe('CustomValueReport', () => {
+  var model: CustomValueReport;
+
+  before(function() {
+    model = new CustomValueReport('80CR0000012000300101822200000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000AD');
+  });
+
+  describe('parse', () => {
+    it('should hold all 20 settings', () => {
+      expect(model.settings.length).to.equal(20);
+    });
+    it('setting 1 should be the number 12', () => {
+      expect(model.settings[0].format).to.equal('Number');
+      expect(model.settings[0].value).to.equal(12);
+    });
+    it('setting 2 should be a 300 second timer', () => {
+      expect(model.settings[1].format).to.equal('Timer');
+      expect(model.settings[1].value).to.equal(300);
+    });
+    it('setting 3 should be the time of day 7:30', () => {
+      expect(model.settings[2].format).to.equal('Time of Day');
+      expect(model.settings[2].value).to.deep.equal({ hour: 7, minute: 30 });
+    });
+  });
+});
+
 describe('EntryExitTime', () => {
   var model: EntryExitTime;
 
@@ -66,6 +173,129 @@ describe('EntryExitTime', () => {
   });
 });
 
+describe('EthernetTest', () => {
+  var model: EthernetTest;
+
+  before(function() {
+    model = new EthernetTest('16XK30251221906211000073');
+  });
+
+  describe('parse', () => {
+    it('date should be equal to 2021-06-19 12:25:30', () => {
+      expect(model.date.getTime()).to.equal(new Date(2021, 5, 19, 12, 25, 30).getTime());
+    });
+    it('dst should be equal to true', () => {
+      expect(model.dst).to.equal(true);
+    });
+    it('clock12Hour should be equal to false', () => {
+      expect(model.clock12Hour).to.equal(false);
+    });
+  });
+});
+
+describe('KeypadFunctionKeypress', () => {
+  var model: KeypadFunctionKeypress;
+
+  before(function() {
+    model = new KeypadFunctionKeypress('11KF011123000000095');
+  });
+
+  describe('parse', () => {
+    it('keypad id should be equal to 1', () => {
+      expect(model.keypadId).to.equal(1);
+    });
+    it('function key should be equal to \'F1\'', () => {
+      expect(model.functionKey).to.equal('F1');
+    });
+    it('area 2 chime mode should be equal to \'Voice\'', () => {
+      expect(model.chimeModes[1]).to.equal('Voice');
+    });
+  });
+});
+
+describe('KeypadKeyChangeUpdate', () => {
+  var model: KeypadKeyChangeUpdate;
+
+  before(function() {
+    model = new KeypadKeyChangeUpdate('19KC01171200000123000000006');
+  });
+
+  describe('parse', () => {
+    it('keypad id should be equal to 1', () => {
+      expect(model.keypadId).to.equal(1);
+    });
+    it('key should be equal to \'Stay\'', () => {
+      expect(model.key).to.equal('Stay');
+    });
+    it('F2 should be equal to \'Blinking\'', () => {
+      expect(model.functionKeys[1]).to.equal('Blinking');
+    });
+    it('bypassCodeRequired should be equal to false', () => {
+      expect(model.bypassCodeRequired).to.equal(false);
+    });
+    it('area 3 chime mode should be equal to \'ChimeAndVoice\'', () => {
+      expect(model.chimeModes[2]).to.equal('ChimeAndVoice');
+    });
+  });
+});
+
+describe('LightingChangeUpdate', () => {
+  var model: LightingChangeUpdate;
+
+  before(function() {
+    model = new LightingChangeUpdate('0BPCB01500093');
+  });
+
+  describe('parse', () => {
+    it('house code should be equal to B', () => {
+      expect(model.house).to.equal('B');
+    });
+    it('light id should be equal to 17', () => {
+      expect(model.id).to.equal(17);
+    });
+    it('level should be equal to 50', () => {
+      expect(model.level).to.equal(50);
+    });
+  });
+});
+
+describe('LightingPollResponse', () => {
+  var model: LightingPollResponse;
+
+  before(function() {
+    model = new LightingPollResponse('0BDS01710009E');
+  });
+
+  describe('parse', () => {
+    it('light id should be equal to 17', () => {
+      expect(model.id).to.equal(17);
+    });
+    it('level should be equal to 10', () => {
+      expect(model.level).to.equal(10);
+    });
+  });
+});
+
+describe('LightingStatusReport', () => {
+  var model: LightingStatusReport;
+
+  before(function() {
+    model = new LightingStatusReport('47PS01000000000000000b00000000000000000000000000000000000000000000000002F');
+  });
+
+  describe('parse', () => {
+    it('should hold 64 lights', () => {
+      expect(model.lights.length).to.equal(64);
+    });
+    it('light 1 should be on', () => {
+      expect(model.lights[0]).to.deep.equal({ id: 1, level: 1 });
+    });
+    it('light 17 level should be equal to 50', () => {
+      expect(model.lights[16]).to.deep.equal({ id: 17, level: 50 });
+    });
+  });
+});
+
 describe('LogDataUpdate', () => {
   var model: LogDataUpdate;
 
@@ -104,6 +334,16 @@ describe('LogDataUpdate', () => {
     it('event year should be equal to \'05\'', () => {
       expect(model.year).to.equal('05');
     });
+    it('event code should be equal to 1193', () => {
+      expect(model.eventCode).to.equal(1193);
+    });
+    it('event details should be armed by user 102', () => {
+      expect(model.eventDetails.subject).to.deep.equal({ kind: 'user', id: 102 });
+      expect(model.eventDetails.state).to.equal('armed');
+    });
+    it('event date should be 7 June 2005 19:45', () => {
+      expect(model.date.getTime()).to.equal(new Date(2005, 5, 7, 19, 45).getTime());
+    });
   });
 });
 
@@ -147,6 +387,74 @@ describe('OutputStatusReport', () => {
   });
 });
 
+describe('RealTimeClockData', () => {
+  var model: RealTimeClockData;
+
+  before(function() {
+    model = new RealTimeClockData('16RR00591072512211000071');
+  });
+
+  describe('parse', () => {
+    it('date should be equal to 2021-12-25 10:59:00', () => {
+      expect(model.date.getTime()).to.equal(new Date(2021, 11, 25, 10, 59, 0).getTime());
+    });
+    it('dst should be equal to true', () => {
+      expect(model.dst).to.equal(true);
+    });
+    it('clock12Hour should be equal to false', () => {
+      expect(model.clock12Hour).to.equal(false);
+    });
+  });
+});
+
+describe('SystemTroubleStatus', () => {
+  var model: SystemTroubleStatus;
+
+  before(function() {
+    model = new SystemTroubleStatus('28SS150000000000000000000000000000000<001E');
+  });
+
+  describe('parse', () => {
+    it('should have 3 active troubles', () => {
+      expect(model.troubles.length).to.equal(3);
+    });
+    it('AC Fail should be active', () => {
+      expect(model.hasTrouble('AC Fail')).to.equal(true);
+    });
+    it('Box Tamper zone should be equal to 5', () => {
+      expect(model.troubles[1]).to.deep.include({ name: 'Box Tamper', zoneId: 5 });
+    });
+    it('Fire trouble zone should be equal to 12', () => {
+      expect(model.troubles[2]).to.deep.include({ name: 'Fire', zoneId: 12 });
+    });
+  });
+});
+
+describe('TemperatureData', () => {
+  var model: TemperatureData;
+  var keypad: TemperatureData;
+
+  before(function() {
+    model = new TemperatureData('0CST0011300061');
+    keypad = new TemperatureData('0CST102108005A');
+  });
+
+  describe('parse', () => {
+    it('group should be equal to Zone', () => {
+      expect(model.group).to.equal('Zone');
+    });
+    it('id should be equal to 1', () => {
+      expect(model.id).to.equal(1);
+    });
+    it('Zone temp should be equal to 70', () => {
+      expect(model.temperature).to.equal(70);
+    });
+    it('Keypad temp should be equal to 68', () => {
+      expect(keypad.temperature).to.equal(68);
+    });
+  });
+});
+
 describe('TemperatureReply', () => {
   var model: TemperatureReply;
 
@@ -202,6 +510,20 @@ describe('ThermostatReply', () => {
   });
 });
 
+describe('ThermostatReply on hold', () => {
+  var model: ThermostatReply;
+
+  before(function() {
+    model = new ThermostatReply('13TR012107268750000FF');
+  });
+
+  describe('parse', () => {
+    it('hold should be equal to True', () => {
+      expect(model.hold).to.equal(true);
+    });
+  });
+});
+
 describe('TextStringDescriptionReport', () => {
   var model: TextStringDescriptionReport;
 
@@ -226,7 +548,7 @@ describe('TextStringDescriptionReport > 99', () => {
   var model: TextStringDescriptionReport;
 
   before(function() {
-    model = new TextStringDescriptionReport('1BSD01101Front DoorKeypad0089');
+    model = new TextStringDescriptionReport('1BSD01101Front DoorKeypad0088');
   });
 
   describe('parse', () => {
@@ -242,6 +564,57 @@ describe('TextStringDescriptionReport > 99', () => {
   });
 });
 
+describe('UserCodeAreasReport', () => {
+  var model: UserCodeAreasReport;
+
+  before(function() {
+    model = new UserCodeAreasReport('0EUA001234050006');
+  });
+
+  describe('parse', () => {
+    it('areas should be equal to [1, 3]', () => {
+      expect(model.areas).to.deep.equal([1, 3]);
+    });
+    it('message should not hold the code', () => {
+      expect(model.message).to.equal('0EUA******050006');
+    });
+  });
+});
+
+describe('UserCodeChangeReply', () => {
+  var model: UserCodeChangeReply;
+
+  before(function() {
+    model = new UserCodeChangeReply('09CU2550003');
+  });
+
+  describe('parse', () => {
+    it('result should be equal to \'duplicate\'', () => {
+      expect(model.result).to.equal('duplicate');
+    });
+    it('user id should be equal to 0', () => {
+      expect(model.userId).to.equal(0);
+    });
+  });
+});
+
+describe('VersionReport', () => {
+  var model: VersionReport;
+
+  before(function() {
+    model = new VersionReport('36VN0502060102100000000000000000000000000000000000000082');
+  });
+
+  describe('parse', () => {
+    it('M1 version should be equal to 5.2.6', () => {
+      expect(model.m1Version.toString()).to.equal('5.2.6');
+    });
+    it('M1XEP version should be equal to 1.2.16', () => {
+      expect(model.xepVersion.toString()).to.equal('1.2.16');
+    });
+  });
+});
+
 describe('ZoneBypassReply', () => {
   var model: ZoneBypass;
 
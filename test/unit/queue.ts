@@ -0,0 +1,59 @@
+import { CommandQueue } from '../../src/lib/queue';
+
+import { expect } from 'chai';
+
+describe('CommandQueue', () => {
+  var queue: CommandQueue;
+  var written: string[];
+
+  const writer = (frame: string, callback: (err?: Error) => void) => {
+    written.push(frame);
+    callback();
+  };
+
+  beforeEach(function() {
+    queue = new CommandQueue(10);
+    written = [];
+  });
+
+  afterEach(function() {
+    queue.stop();
+  });
+
+  describe('enqueue', () => {
+    it('should buffer commands until started', () => {
+      queue.enqueue('a');
+      expect(written).to.deep.equal([]);
+      expect(queue.length).to.equal(1);
+    });
+    it('should send priority commands first', () => {
+      queue.enqueue('a');
+      queue.enqueue('b');
+      queue.enqueue('disarm', true);
+      return Promise.all([
+        queue.enqueue('c'),
+        Promise.resolve(queue.start(writer))
+      ]).then(() => {
+        expect(written).to.deep.equal(['disarm', 'a', 'b', 'c']);
+      });
+    });
+    it('should leave the interval between frames', () => {
+      const start = Date.now();
+      queue.start(writer);
+      return Promise.all([queue.enqueue('a'), queue.enqueue('b'), queue.enqueue('c')]).then(() => {
+        expect(Date.now() - start).to.be.at.least(18);
+      });
+    });
+  });
+
+  describe('flush', () => {
+    it('should reject queued commands', () => {
+      const pending = queue.enqueue('a');
+      queue.flush(new Error('lost'));
+      return pending.then(
+        () => { throw new Error('should have been rejected'); },
+        (err) => expect(err.message).to.equal('lost')
+      );
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { RequestManager } from '../../src/lib/requests';
+import { ElkTimeoutError } from '../../src/lib/errors';
+
+import { expect } from 'chai';
+
+describe('RequestManager', () => {
+  var requests: RequestManager;
+
+  beforeEach(function() {
+    requests = new RequestManager();
+  });
+
+  describe('handle', () => {
+    it('should resolve the request waiting for the reply type', () => {
+      const pending = requests.register({ command: 'as', type: 'AS', timeout: 1000, description: 'Arming Status' });
+      expect(requests.handle({ type: 'AS' })).to.equal(true);
+      expect(requests.size).to.equal(0);
+      return pending;
+    });
+    it('should ignore replies nobody is waiting for', () => {
+      expect(requests.handle({ type: 'ZC' })).to.equal(false);
+    });
+    it('should match concurrent requests by id', () => {
+      const zone1 = requests.register<any>({ command: 'zv', type: 'ZV', timeout: 1000, description: 'Zone Voltage', match: (r) => r.id === 1 });
+      const zone2 = requests.register<any>({ command: 'zv', type: 'ZV', timeout: 1000, description: 'Zone Voltage', match: (r) => r.id === 2 });
+
+      requests.handle({ type: 'ZV', id: 2 });
+      requests.handle({ type: 'ZV', id: 1 });
+
+      return Promise.all([zone1, zone2]).then(([reply1, reply2]) => {
+        expect(reply1.id).to.equal(1);
+        expect(reply2.id).to.equal(2);
+      });
+    });
+  });
+
+  describe('start', () => {
+    it('should reject when the reply does not arrive in time', () => {
+      const options = { command: 'as', type: 'AS', timeout: 5, description: 'Arming Status' };
+      const pending = requests.register(options);
+      requests.start(options);
+      return pending.then(
+        () => { throw new Error('should have been rejected'); },
+        (reason) => {
+          expect(reason).to.be.instanceOf(ElkTimeoutError);
+          expect(reason.command).to.equal('as');
+          expect(reason.expectedType).to.equal('AS');
+          expect(requests.size).to.equal(0);
+        }
+      );
+    });
+  });
+
+  describe('rejectAll', () => {
+    it('should reject every pending request', () => {
+      const pending = requests.register({ command: 'as', type: 'AS', timeout: 1000, description: 'Arming Status' });
+      requests.rejectAll('lost');
+      return pending.then(
+        () => { throw new Error('should have been rejected'); },
+        (reason) => expect(reason).to.equal('lost')
+      );
+    });
+  });
+});
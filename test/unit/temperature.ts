@@ -0,0 +1,30 @@
+import { TemperatureMonitor } from '../../src/lib/temperature';
+import { TemperatureGroup } from '../../src/lib/enums';
+import { TemperatureReading } from '../../src/lib/models';
+
+import { expect } from 'chai';
+
+describe('TemperatureMonitor', () => {
+  var monitor: TemperatureMonitor;
+  const reading = (temperature: number) => new TemperatureReading('Zone', 1, temperature);
+
+  beforeEach(function() {
+    monitor = new TemperatureMonitor([{ group: TemperatureGroup.Zone, id: 1, low: 35, high: 90, hysteresis: 2 }]);
+  });
+
+  it('should raise a low alert at the threshold', () => {
+    expect(monitor.check(reading(35)).alert).to.equal('low');
+  });
+  it('should only raise an alert once', () => {
+    monitor.check(reading(30));
+    expect(monitor.check(reading(32))).to.equal(null);
+  });
+  it('should not clear the alert within the hysteresis', () => {
+    monitor.check(reading(35));
+    expect(monitor.check(reading(36))).to.equal(null);
+    expect(monitor.check(reading(37)).alert).to.equal('normal');
+  });
+  it('should ignore sensors without thresholds', () => {
+    expect(monitor.check(new TemperatureReading('Keypad', 1, 120))).to.equal(null);
+  });
+});
@@ -0,0 +1,61 @@
+import { getTlsErrorReason, SerialTransport } from '../../src/lib/transports';
+import { ChildProcess, spawn } from 'child_process';
+import { stat } from 'fs';
+
+import { expect } from 'chai';
+
+describe('getTlsErrorReason', () => {
+  it('wrong version number should be a protocol failure', () => {
+    expect(getTlsErrorReason({ code: 'ERR_SSL_WRONG_VERSION_NUMBER' })).to.equal('protocol');
+  });
+  it('EPROTO unsupported protocol should be a protocol failure', () => {
+    expect(getTlsErrorReason({ code: 'EPROTO', message: 'unsupported protocol' })).to.equal('protocol');
+  });
+  it('self signed certificate should be a certificate failure', () => {
+    expect(getTlsErrorReason({ code: 'DEPTH_ZERO_SELF_SIGNED_CERT' })).to.equal('certificate');
+  });
+  it('pin mismatch should be a pin failure', () => {
+    expect(getTlsErrorReason({ code: 'ERR_TLS_CERT_PIN_MISMATCH' })).to.equal('pin');
+  });
+  it('connection reset should be unknown', () => {
+    expect(getTlsErrorReason({ code: 'ECONNRESET' })).to.equal('unknown');
+  });
+});
+
+describe('SerialTransport', () => {
+  var pty: ChildProcess;
+  var path: string;
+
+  // Opens a pty pair and prints the device path, holding the master side open
+  before(function(done) {
+    pty = spawn('python3', ['-c', 'import os, pty, time\nm, s = pty.openpty()\nprint(os.ttyname(s), flush=True)\ntime.sleep(60)']);
+    pty.on('error', () => this.skip());
+    pty.stdout.once('data', (data) => {
+      path = data.toString().trim();
+      done();
+    });
+  });
+
+  after(function() {
+    if (pty) {
+      pty.kill();
+    }
+  });
+
+  it('should close the device when destroyed', (done) => {
+    const stream = new SerialTransport(path, { baudRate: 0 }).open(() => stream.destroy());
+    stream.on('close', () => done());
+  });
+  it('should not tie up the threadpool after streams are destroyed', (done) => {
+    // More streams than libuv has threadpool threads, which blocking reads would all hold
+    const next = (count: number) => {
+      if (count === 0) {
+        return stat(path, (err) => done(err));
+      }
+      // Give the stream time to start reading before it's destroyed
+      const stream = new SerialTransport(path, { baudRate: 0 }).open(() => setTimeout(() => stream.destroy(), 10));
+      stream.on('close', () => next(count - 1));
+    };
+    next(6);
+  });
+});
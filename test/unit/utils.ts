@@ -0,0 +1,54 @@
+import { backoffDelay, houseUnitToLight, leftPad, lightToHouseUnit, maskUserCode } from '../../src/lib/utils';
+
+import { expect } from 'chai';
+
+describe('leftPad', () => {
+  it('should pad 7 to \'007\'', () => {
+    expect(leftPad('7', 3, '0')).to.equal('007');
+  });
+});
+
+describe('lightToHouseUnit', () => {
+  it('light 17 should be \'B01\'', () => {
+    expect(lightToHouseUnit(17)).to.equal('B01');
+  });
+  it('light 256 should be \'P16\'', () => {
+    expect(lightToHouseUnit(256)).to.equal('P16');
+  });
+});
+
+describe('houseUnitToLight', () => {
+  it('A16 should be light 16', () => {
+    expect(houseUnitToLight('A', 16)).to.equal(16);
+  });
+});
+
+describe('maskUserCode', () => {
+  it('should mask the code of a UA frame', () => {
+    expect(maskUserCode('0EUA001234050006')).to.equal('0EUA******050006');
+  });
+  it('should mask a truncated UA frame', () => {
+    expect(maskUserCode('0EUA0012')).to.equal('0EUA****');
+  });
+  it('should leave other frames alone', () => {
+    expect(maskUserCode('0AZC002200CE')).to.equal('0AZC002200CE');
+  });
+});
+
+describe('backoffDelay', () => {
+  const options = { initialDelay: 1000, multiplier: 2, maxDelay: 5000, jitter: 0 };
+
+  it('first attempt should wait the initial delay', () => {
+    expect(backoffDelay(0, options)).to.equal(1000);
+  });
+  it('third attempt should wait 4000ms', () => {
+    expect(backoffDelay(2, options)).to.equal(4000);
+  });
+  it('delay should not exceed the max delay', () => {
+    expect(backoffDelay(10, options)).to.equal(5000);
+  });
+  it('jitter should keep the delay within range', () => {
+    const delay = backoffDelay(0, { initialDelay: 1000, jitter: 0.5 });
+    expect(delay).to.be.within(500, 1500);
+  });
+});